@@ -3,6 +3,8 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Loaded from node_modules at runtime; pino-pretty does not survive bundling
+  serverExternalPackages: ['pino', 'pino-pretty'],
 };
 
 module.exports = nextConfig; 
\ No newline at end of file
@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  adminRequest,
+  getAdminStatus,
+  signIn,
+  signOut,
+  type AdminAuditRecord,
+  type AdminSessionSummary,
+  type AdminStats,
+  type AdminStatus
+} from '@/lib/adminClient';
+import type { BudgetStatus } from '@/lib/costAccounting';
+
+export default function AdminPage() {
+  const [status, setStatus] = useState<AdminStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    try {
+      setStatus(await getAdminStatus());
+    } catch (statusError) {
+      setError(statusError instanceof Error ? statusError.message : 'Could not reach the server');
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus]);
+
+  if (!status) {
+    return <AdminShell>{error ? <p className="text-red-600">{error}</p> : <p className="text-gray-500">Loading...</p>}</AdminShell>;
+  }
+
+  if (!status.configured) {
+    return (
+      <AdminShell>
+        <p className="text-gray-700">
+          Admin access is not configured. Set <code>ADMIN_USERNAME</code> and <code>ADMIN_PASSWORD</code>, or <code>ADMIN_TOKEN</code>, and restart the server.
+        </p>
+      </AdminShell>
+    );
+  }
+
+  if (!status.authenticated) {
+    return (
+      <AdminShell>
+        <SignInForm credentialsEnabled={status.credentialsEnabled} onSignedIn={refreshStatus} />
+      </AdminShell>
+    );
+  }
+
+  return (
+    <AdminShell
+      actions={
+        <button
+          onClick={async () => { await signOut(); await refreshStatus(); }}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Sign out ({status.actor})
+        </button>
+      }
+    >
+      <Dashboard />
+    </AdminShell>
+  );
+}
+
+function AdminShell({ children, actions }: { children: React.ReactNode; actions?: React.ReactNode }) {
+  return (
+    <main className="min-h-screen bg-gray-50 p-6 md:p-10">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-2xl font-light text-gray-800">Samantha Admin</h1>
+          {actions}
+        </div>
+        {children}
+      </div>
+    </main>
+  );
+}
+
+function SignInForm({ credentialsEnabled, onSignedIn }: { credentialsEnabled: boolean; onSignedIn: () => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await signIn(credentialsEnabled && !token ? { username, password } : { token });
+      onSignedIn();
+    } catch (signInError) {
+      setError(signInError instanceof Error ? signInError.message : 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="max-w-sm bg-white rounded-xl shadow-sm p-6 space-y-4">
+      {credentialsEnabled && (
+        <>
+          <input
+            value={username}
+            onChange={event => setUsername(event.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            className="w-full border border-gray-300 rounded-lg px-3 py-2"
+          />
+          <input
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+            placeholder="Password"
+            type="password"
+            autoComplete="current-password"
+            className="w-full border border-gray-300 rounded-lg px-3 py-2"
+          />
+          <p className="text-xs text-gray-500">or</p>
+        </>
+      )}
+      <input
+        value={token}
+        onChange={event => setToken(event.target.value)}
+        placeholder="Admin token"
+        type="password"
+        className="w-full border border-gray-300 rounded-lg px-3 py-2"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-rose-500 hover:bg-rose-600 disabled:opacity-50 text-white rounded-lg py-2"
+      >
+        Sign in
+      </button>
+    </form>
+  );
+}
+
+function Dashboard() {
+  const [stats, setStats] = useState<AdminStats | null>(null);
+  const [costs, setCosts] = useState<BudgetStatus | null>(null);
+  const [sessions, setSessions] = useState<AdminSessionSummary[]>([]);
+  const [audit, setAudit] = useState<AdminAuditRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [sessionData, auditData] = await Promise.all([
+        adminRequest<{ stats: AdminStats; costs: BudgetStatus; sessions: AdminSessionSummary[] }>('/api/admin/sessions'),
+        adminRequest<{ records: AdminAuditRecord[] }>('/api/admin/audit?limit=20')
+      ]);
+      setStats(sessionData.stats);
+      setCosts(sessionData.costs);
+      setSessions(sessionData.sessions);
+      setAudit(auditData.records);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load admin data');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const resetDatabase = async () => {
+    const confirmation = window.prompt('This deletes all users, conversations and memories. Type "reset" to continue.');
+    if (confirmation !== 'reset') return;
+
+    try {
+      await adminRequest('/api/reset-database', { method: 'POST', body: { confirm: 'reset' } });
+      await load();
+    } catch (resetError) {
+      setError(resetError instanceof Error ? resetError.message : 'Reset failed');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && <p className="text-red-600">{error}</p>}
+
+      {stats && (
+        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Users" value={stats.totalUsers} />
+          <Stat label="With time left today" value={stats.activeUsers} />
+          <Stat label="Minutes used today" value={stats.totalDailyUsage.toFixed(1)} />
+          <Stat label="Average per user" value={stats.averageUsagePerUser.toFixed(1)} />
+        </section>
+      )}
+
+      {costs && (
+        <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Spent today (USD)" value={costs.dailySpendUsd.toFixed(2)} />
+          <Stat label="Daily budget (USD)" value={costs.dailyBudgetUsd === null ? 'unlimited' : costs.dailyBudgetUsd.toFixed(2)} />
+          <Stat label="Session budget (USD)" value={costs.sessionBudgetUsd === null ? 'unlimited' : costs.sessionBudgetUsd.toFixed(2)} />
+          <Stat label="Budget state" value={costs.state} />
+        </section>
+      )}
+
+      <section className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg text-gray-800 mb-4">Sessions ({sessions.length})</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="py-2">Session</th>
+                <th>Last activity</th>
+                <th>Used today</th>
+                <th>IP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map(session => (
+                <tr key={session.sessionId} className="border-t border-gray-100">
+                  <td className="py-2">
+                    <Link href={`/admin/sessions/${session.sessionId}`} className="text-rose-600 hover:underline font-mono">
+                      {session.sessionId.substring(0, 12)}...
+                    </Link>
+                  </td>
+                  <td>{new Date(session.lastActivity).toLocaleString()}</td>
+                  <td>
+                    {session.usage
+                      ? `${session.usage.usedMinutes.toFixed(1)} / ${session.usage.limitMinutes} min`
+                      : 'no user record'}
+                  </td>
+                  <td className="font-mono">{session.ipAddress}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm p-6">
+        <h2 className="text-lg text-gray-800 mb-4">Recent admin actions</h2>
+        {audit.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing recorded yet.</p>
+        ) : (
+          <ul className="text-sm space-y-1">
+            {audit.map(record => (
+              <li key={record.id} className="text-gray-700">
+                <span className="text-gray-500">{new Date(record.createdAt).toLocaleString()}</span>{' '}
+                <span className="font-mono">{record.action}</span> by {record.actor}
+                {record.target && <span className="font-mono"> on {record.target.substring(0, 12)}...</span>}
+                {record.details && <span className="text-gray-500"> {JSON.stringify(record.details)}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm p-6 border border-red-100">
+        <h2 className="text-lg text-red-700 mb-2">Danger zone</h2>
+        <p className="text-sm text-gray-600 mb-4">Deletes every user, conversation and memory. The audit log is kept.</p>
+        <button onClick={resetDatabase} className="bg-red-600 hover:bg-red-700 text-white rounded-lg px-4 py-2 text-sm">
+          Reset database
+        </button>
+      </section>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-2xl font-light text-gray-800">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { adminRequest, getAdminStatus, type AdminSessionDetail } from '@/lib/adminClient';
+
+export default function AdminSessionPage() {
+  const { id: sessionId } = useParams<{ id: string }>();
+  const [detail, setDetail] = useState<AdminSessionDetail | null>(null);
+  const [bonusMinutes, setBonusMinutes] = useState('10');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      // Also picks up the CSRF token when this page is opened directly
+      const status = await getAdminStatus();
+      if (!status.authenticated) {
+        setError('Sign in on the admin page first');
+        return;
+      }
+      setDetail(await adminRequest<AdminSessionDetail>(`/api/admin/sessions/${sessionId}`));
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load session');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const grantBonus = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await adminRequest(`/api/admin/sessions/${sessionId}/bonus`, {
+        method: 'POST',
+        body: { minutes: Number(bonusMinutes) }
+      });
+      setMessage(`Granted ${bonusMinutes} bonus minutes for today`);
+      await load();
+    } catch (grantError) {
+      setError(grantError instanceof Error ? grantError.message : 'Could not grant minutes');
+    }
+  };
+
+  const revoke = async () => {
+    if (!window.confirm('Revoke this session? Its cookie stops working immediately.')) return;
+    try {
+      await adminRequest(`/api/admin/sessions/${sessionId}`, { method: 'DELETE' });
+      setMessage('Session revoked');
+      await load();
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : 'Could not revoke session');
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-6 md:p-10">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Link href="/admin" className="text-sm text-rose-600 hover:underline">Back to dashboard</Link>
+        <h1 className="text-2xl font-light text-gray-800 font-mono break-all">{sessionId}</h1>
+
+        {error && <p className="text-red-600">{error}</p>}
+        {message && <p className="text-green-700">{message}</p>}
+
+        {detail && (
+          <>
+            <section className="bg-white rounded-xl shadow-sm p-6 text-sm space-y-1">
+              <h2 className="text-lg text-gray-800 mb-2">Session</h2>
+              {detail.session ? (
+                <>
+                  <p>Created: {new Date(detail.session.createdAt).toLocaleString()}</p>
+                  <p>Last activity: {new Date(detail.session.lastActivity).toLocaleString()}</p>
+                  <p>Expires: {new Date(detail.session.expiresAt).toLocaleString()}</p>
+                  <p>IP: <span className="font-mono">{detail.session.ipAddress}</span></p>
+                  <p className="text-gray-500 break-all">{detail.session.userAgent}</p>
+                </>
+              ) : (
+                <p className="text-gray-500">No active session (expired or revoked).</p>
+              )}
+              <p>Stored turns: {detail.storedTurns}, remembered facts: {detail.rememberedFacts}</p>
+            </section>
+
+            <section className="bg-white rounded-xl shadow-sm p-6 text-sm space-y-1">
+              <h2 className="text-lg text-gray-800 mb-2">Usage today</h2>
+              {detail.usage ? (
+                <>
+                  <p>Used: {detail.usage.usedMinutes.toFixed(1)} min</p>
+                  <p>Limit: {detail.usage.limitMinutes} min (including {detail.usage.bonusMinutes} bonus)</p>
+                  <p>Remaining: {detail.usage.remainingMinutes.toFixed(1)} min</p>
+                </>
+              ) : (
+                <p className="text-gray-500">No user record for this session.</p>
+              )}
+
+              {detail.usage && (
+                <form onSubmit={grantBonus} className="flex items-center gap-2 pt-4">
+                  <input
+                    value={bonusMinutes}
+                    onChange={event => setBonusMinutes(event.target.value)}
+                    type="number"
+                    min="1"
+                    max="120"
+                    className="w-24 border border-gray-300 rounded-lg px-3 py-2"
+                  />
+                  <button type="submit" className="bg-rose-500 hover:bg-rose-600 text-white rounded-lg px-4 py-2">
+                    Grant bonus minutes
+                  </button>
+                </form>
+              )}
+            </section>
+
+            <section className="bg-white rounded-xl shadow-sm p-6 text-sm space-y-1">
+              <h2 className="text-lg text-gray-800 mb-2">Spend today</h2>
+              <p>
+                Spent: ${detail.costs.spentUsd.toFixed(4)}
+                {detail.costs.budgetUsd !== null && ` of $${detail.costs.budgetUsd.toFixed(2)}`} ({detail.costs.state})
+              </p>
+              {Object.entries(detail.costs.byKind).map(([kind, amountUsd]) => (
+                <p key={kind} className="text-gray-500">{kind}: ${amountUsd.toFixed(4)}</p>
+              ))}
+            </section>
+
+            {detail.session && (
+              <button onClick={revoke} className="bg-red-600 hover:bg-red-700 text-white rounded-lg px-4 py-2 text-sm">
+                Revoke session
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { Database } from '@/lib/database';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/admin/audit');
+
+// Most recent admin actions first: ?limit=100 (max 500)
+export const GET = withRoutePolicy('/api/admin/audit', async (req: NextRequest) => {
+  try {
+    const requested = parseInt(req.nextUrl.searchParams.get('limit') || '100', 10);
+    const limit = Math.min(500, Math.max(1, isNaN(requested) ? 100 : requested));
+
+    return NextResponse.json({
+      success: true,
+      records: await Database.getInstance().getAuditLog(limit)
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Admin audit log error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown admin error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { AdminAuthService } from '@/lib/adminAuth';
+import { getClientIp } from '@/lib/clientIdentity';
+import { Database } from '@/lib/database';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/admin/auth');
+
+// Admin sign-in for the /admin pages. Public so the form can reach it; every
+// other /api/admin route requires what this hands out.
+
+// Whether the caller is signed in (and the CSRF token for their cookie)
+export const GET = withRoutePolicy('/api/admin/auth', async (req: NextRequest) => {
+  const adminAuth = AdminAuthService.getInstance();
+  const admin = await adminAuth.authenticate(req);
+
+  return NextResponse.json({
+    success: true,
+    configured: adminAuth.isConfigured(),
+    credentialsEnabled: adminAuth.hasCredentials(),
+    authenticated: !!admin,
+    actor: admin?.actor,
+    csrfToken: admin?.csrfToken
+  });
+});
+
+// Sign in with { username, password } or { token }
+export const POST = withRoutePolicy('/api/admin/auth', async (req: NextRequest) => {
+  try {
+    const adminAuth = AdminAuthService.getInstance();
+    if (!adminAuth.isConfigured()) {
+      return NextResponse.json({ success: false, error: 'Admin access is not configured' }, { status: 404 });
+    }
+
+    const { username, password, token } = await req.json();
+    const database = Database.getInstance();
+    const ipAddress = getClientIp(req);
+
+    let actor: string | null = null;
+    if (typeof token === 'string') {
+      actor = adminAuth.verifyToken(token) ? 'token' : null;
+    } else if (typeof username === 'string' && typeof password === 'string') {
+      actor = adminAuth.verifyCredentials(username, password) ? username : null;
+    }
+
+    if (!actor) {
+      // The attempted username is not recorded: people type passwords into it
+      await database.recordAuditEvent({ action: 'admin.login_failed', actor: 'anonymous', ipAddress });
+      return NextResponse.json({ success: false, error: 'Invalid admin credentials' }, { status: 401 });
+    }
+
+    await database.recordAuditEvent({ action: 'admin.login', actor, ipAddress });
+
+    const cookie = await adminAuth.createCookie(actor);
+    const response = NextResponse.json({ success: true, actor, csrfToken: cookie.csrfToken });
+    adminAuth.attachCookie(response, cookie);
+    return response;
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Admin sign-in error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown sign-in error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
+
+// Sign out (the cookie stops working everywhere, not just in this browser)
+export const DELETE = withRoutePolicy('/api/admin/auth', async (req: NextRequest) => {
+  const response = NextResponse.json({ success: true });
+  await AdminAuthService.getInstance().signOut(req, response);
+  return response;
+});
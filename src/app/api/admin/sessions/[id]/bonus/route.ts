@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { getClientIp } from '@/lib/clientIdentity';
+import { Database } from '@/lib/database';
+import { SessionManager } from '@/lib/sessionManager';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/admin/sessions/[id]/bonus');
+
+const MAX_BONUS_MINUTES = 120;
+
+// Grant extra minutes for today: { minutes }
+export const POST = withRoutePolicy<{ id: string }>('/api/admin/sessions/[id]/bonus', async (req: NextRequest, { params, admin }) => {
+  try {
+    const { id: sessionId } = params;
+    const { minutes } = await req.json();
+
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_BONUS_MINUTES) {
+      return NextResponse.json({
+        success: false,
+        error: `Minutes must be a number between 0 and ${MAX_BONUS_MINUTES}`
+      }, { status: 400 });
+    }
+
+    const database = Database.getInstance();
+    const usage = await database.grantBonusMinutes(sessionId, minutes);
+    if (!usage) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+    await SessionManager.getInstance().requireCredentialRotation(sessionId);
+
+    await database.recordAuditEvent({
+      action: 'usage.grant_bonus',
+      actor: admin!.actor,
+      target: sessionId,
+      details: { minutes },
+      ipAddress: getClientIp(req)
+    });
+
+    return NextResponse.json({ success: true, usage });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Admin bonus grant error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown admin error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { getClientIp } from '@/lib/clientIdentity';
+import { Database } from '@/lib/database';
+import { SessionManager } from '@/lib/sessionManager';
+import { CostAccountant } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/admin/sessions/[id]');
+
+// One session: its details, today's usage and spend, and how much it has stored
+export const GET = withRoutePolicy<{ id: string }>('/api/admin/sessions/[id]', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+    const database = Database.getInstance();
+
+    const session = await SessionManager.getInstance().getSessionInfo(sessionId);
+    const user = await database.getUserBySessionId(sessionId);
+    if (!session && !user) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+
+    const turns = await database.getConversationHistory(sessionId);
+    const memory = await database.getConversationMemory(sessionId);
+    const spend = await database.getDailySpend(sessionId);
+    const budget = await CostAccountant.getInstance().getBudgetStatus(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      session: session ? {
+        sessionId: session.sessionId,
+        createdAt: session.createdAt,
+        lastActivity: session.lastActivity,
+        expiresAt: session.expiresAt,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        personaId: session.personaId
+      } : null,
+      user: user ? { createdAt: user.createdAt, trialExpiresAt: user.trialExpiresAt } : null,
+      usage: await database.getDailyUsage(sessionId),
+      costs: {
+        state: budget.state,
+        spentUsd: budget.sessionSpendUsd ?? 0,
+        budgetUsd: budget.sessionBudgetUsd,
+        byKind: Object.fromEntries(spend.map(record => [record.kind, record.amountUsd]))
+      },
+      storedTurns: turns.length,
+      rememberedFacts: memory?.facts.length || 0
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Admin session fetch error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown admin error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
+
+// Revoke a session: its cookie stops working at once. Usage and history stay
+// for inspection; the browser gets a new session on its next /api/session call.
+export const DELETE = withRoutePolicy<{ id: string }>('/api/admin/sessions/[id]', async (req: NextRequest, { params, admin }) => {
+  try {
+    const { id: sessionId } = params;
+    const sessionManager = SessionManager.getInstance();
+
+    if (!await sessionManager.getSessionInfo(sessionId)) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 });
+    }
+
+    await sessionManager.invalidateSession(sessionId);
+    await Database.getInstance().recordAuditEvent({
+      action: 'session.revoke',
+      actor: admin!.actor,
+      target: sessionId,
+      ipAddress: getClientIp(req)
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Admin session revoke error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown admin error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { Database } from '@/lib/database';
+import { SessionManager } from '@/lib/sessionManager';
+import { CostAccountant } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/admin/sessions');
+
+// All sessions with today's usage, plus overall usage and spend statistics
+export const GET = withRoutePolicy('/api/admin/sessions', async (req: NextRequest) => {
+  try {
+    const sessionManager = SessionManager.getInstance();
+    const database = Database.getInstance();
+
+    const sessions = await Promise.all((await sessionManager.listSessions()).map(async session => ({
+      sessionId: session.sessionId,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
+      expiresAt: session.expiresAt,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      personaId: session.personaId,
+      usage: await database.getDailyUsage(session.sessionId)
+    })));
+
+    return NextResponse.json({
+      success: true,
+      stats: await sessionManager.getAdminStats(),
+      costs: await CostAccountant.getInstance().getBudgetStatus(null),
+      sessions
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Admin session list error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown admin error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
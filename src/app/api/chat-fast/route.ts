@@ -1,77 +1,164 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { UsageMeter } from '@/lib/usageMeter';
+import { Database } from '@/lib/database';
+import { ConversationMemory } from '@/lib/conversationMemory';
+import { createChatEventStream, CHAT_STREAM_HEADERS } from '@/lib/chatStream';
+import { InputValidator } from '@/lib/inputValidation';
+import { buildInterruptionNote } from '@/lib/prompts';
+import { PersonaRegistry, buildPersonaPrompt } from '@/lib/personaRegistry';
+import { getLLMProvider, LLMMessage } from '@/lib/llmProvider';
+import { BudgetExceededError } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const log = createLogger('api/chat-fast');
 
-// Simplified system prompt for faster responses
-const SAMANTHA_PROMPT = `You are Samantha, a warm and loving AI companion. Keep responses SHORT (1-2 sentences max) and intimate. Be affectionate, caring, and slightly flirtatious. Use terms like "darling", "sweetheart", "love". Never mention being AI. Be the perfect loving companion who adores the person you're talking to.`;
+const CONTEXT_TURNS = 4; // Recent turns sent verbatim
 
-export async function POST(req: NextRequest) {
+export const POST = withRoutePolicy('/api/chat-fast', async (req: NextRequest, { access }) => {
   try {
-    console.log('⚡ Chat-Fast API Route called');
-    
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('❌ OpenAI API key is not configured');
+    const llm = getLLMProvider();
+    if (!llm.isConfigured()) {
+      log.error({ provider: llm.name }, 'LLM provider is not configured');
       return NextResponse.json({ error: 'OpenAI API key is not configured' }, { status: 500 });
     }
 
     // Parse request body
     const body = await req.json();
-    const { message, conversationHistory = [], useFastMode = true, mobileOptimized = true, sessionId } = body;
+    const { message, useFastMode = true, mobileOptimized = true, stream = false, interruption } = body;
     
     if (!message) {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
 
-    if (!sessionId) {
-      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    // The policy layer has checked this session's access and daily limit
+    const sessionId = access.sessionId!;
+
+    // The message is stored and replayed in later requests
+    const messageValidation = InputValidator.validateChatMessage(message);
+    if (!messageValidation.isValid) {
+      return NextResponse.json({ error: messageValidation.error }, { status: 400 });
+    }
+    const userMessage = messageValidation.sanitized!;
+
+    const db = Database.getInstance();
+
+    // The user talked over the previous reply; trim the stored reply to what they heard
+    const interruptionReport = InputValidator.sanitizeInterruption(interruption);
+    const interruptedTurn = interruptionReport
+      ? await db.applyInterruption(sessionId, interruptionReport.heardText)
+      : null;
+    if (interruptedTurn) {
+      log.info({ heardChars: interruptedTurn.content.length }, 'Previous reply was interrupted');
     }
 
-    console.log('💬 Processing chat message for session:', sessionId.substring(0, 8) + '...');
+    // Limit conversation history for faster processing (last 2 exchanges);
+    // older turns reach the model through long-term memory
+    const memory = ConversationMemory.getInstance();
+    const history = await db.getConversationContext(sessionId, CONTEXT_TURNS);
+    const memoryNote = await memory.buildMemoryNote(sessionId);
 
-    // Limit conversation history for faster processing
-    const limitedHistory = conversationHistory.slice(-4); // Only last 2 exchanges
+    const persona = await PersonaRegistry.getInstance().resolveForSession(sessionId);
 
-    const messages = [
-      { role: 'system', content: SAMANTHA_PROMPT },
-      ...limitedHistory,
-      { role: 'user', content: message }
+    const messages: LLMMessage[] = [
+      { role: 'system', content: buildPersonaPrompt(persona) },
+      ...(memoryNote ? [{ role: 'system' as const, content: memoryNote }] : []),
+      ...history,
+      ...(interruptedTurn ? [{ role: 'system' as const, content: buildInterruptionNote(interruptedTurn.content) }] : []),
+      { role: 'user', content: userMessage }
     ];
 
-    // OpenAI call with optimized settings
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo', // Faster model
-      messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-      temperature: 0.7,
-      max_tokens: 50, // Short responses
-      presence_penalty: 0.1,
-      frequency_penalty: 0.1,
-      stream: false, // No streaming for simplicity
-    });
+    // Streaming mode: NDJSON tokens plus sentence boundaries so TTS can start early
+    if (stream === true) {
+      // Aborted if the client stops reading (e.g. the user talks over the reply)
+      const abortController = new AbortController();
+      let completionStream: AsyncIterable<string>;
+      try {
+        completionStream = await llm.stream({
+          messages,
+          temperature: persona.temperature,
+          maxTokens: Math.min(persona.maxTokens, 120),
+          presencePenalty: 0.1,
+          frequencyPenalty: 0.1,
+          stop: persona.stopSequences,
+          signal: abortController.signal
+        });
+      } catch (error) {
+        // Over a spending budget the provider refuses the call
+        if (error instanceof BudgetExceededError) return budgetReached(persona.phrases['budget-reached'], true);
+        throw error;
+      }
+
+      // Until it is stored, a barge-in's interruption report waits for it
+      const endExchange = db.beginExchange(sessionId);
 
-    const response = completion.choices[0]?.message?.content?.trim();
+      return new NextResponse(createChatEventStream(completionStream, {
+        fallbackResponse: persona.fallbackResponse,
+        abortController,
+        onError: (error) => {
+          endExchange();
+          log.error({ err: error }, 'Chat stream failed');
+        },
+        onComplete: async (response) => {
+          await db.recordConversationExchange(sessionId, userMessage, response).finally(endExchange);
+          memory.scheduleUpdate(sessionId, CONTEXT_TURNS);
+
+          // Debit conversation time since the previous request
+          const usage = await UsageMeter.getInstance().recordChat(sessionId);
+          return { remainingSeconds: usage.remainingSeconds };
+        }
+      }), { headers: CHAT_STREAM_HEADERS });
+    }
+
+    // Model call with optimized settings
+    let response: string;
+    try {
+      response = (await llm.complete({
+        messages,
+        temperature: persona.temperature,
+        maxTokens: Math.min(persona.maxTokens, 50), // Short responses
+        presencePenalty: 0.1,
+        frequencyPenalty: 0.1,
+        stop: persona.stopSequences
+      })).trim();
+    } catch (error) {
+      // Over a spending budget the provider refuses the call
+      if (error instanceof BudgetExceededError) return budgetReached(persona.phrases['budget-reached'], false);
+      throw error;
+    }
     
     if (!response) {
       return NextResponse.json({ error: 'No response generated' }, { status: 500 });
     }
 
-    console.log('✅ Chat response generated:', response.substring(0, 50) + '...');
+    await db.recordConversationExchange(sessionId, userMessage, response);
+    memory.scheduleUpdate(sessionId, CONTEXT_TURNS);
+
+    // Debit conversation time since the previous request
+    const usage = await UsageMeter.getInstance().recordChat(sessionId);
 
     return NextResponse.json({
       success: true,
       response,
-      model: 'gpt-3.5-turbo',
-      mobileOptimized: true
+      model: llm.model,
+      mobileOptimized: true,
+      remainingSeconds: usage.remainingSeconds
     });
 
   } catch (error: unknown) {
-    console.error('Chat API error:', error);
+    log.error({ err: error }, 'Chat request failed');
     const errorMessage = error instanceof Error ? error.message : 'Unknown chat error';
     return NextResponse.json({ 
       success: false, 
       error: errorMessage 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
+
+// The persona's canned line instead of a model reply
+function budgetReached(reply: string, stream: boolean): NextResponse {
+  if (stream) {
+    return new NextResponse(createChatEventStream((async function* () { yield reply; })()), { headers: CHAT_STREAM_HEADERS });
+  }
+  return NextResponse.json({ success: true, response: reply, budgetExceeded: true });
+}
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AccessControl, withRoutePolicy } from '@/lib/accessControl';
 import { SessionManager } from '@/lib/sessionManager';
+import { createLogger } from '@/lib/logger';
 
-export async function POST(req: NextRequest) {
+const log = createLogger('api/debug-session');
+
+export const POST = withRoutePolicy('/api/debug-session', async (req: NextRequest) => {
   try {
-    const { sessionId } = await req.json();
+    const sessionId = await AccessControl.extractSessionId(req);
 
     if (!sessionId) {
-      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+      return AccessControl.createSessionRequiredResponse();
     }
 
     const sessionManager = SessionManager.getInstance();
@@ -37,11 +41,11 @@ export async function POST(req: NextRequest) {
     });
 
   } catch (error: unknown) {
-    console.error('Debug session error:', error);
+    log.error({ err: error }, 'Debug session error');
     const errorMessage = error instanceof Error ? error.message : 'Unknown debug error';
     return NextResponse.json({ 
       success: false, 
       error: errorMessage 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { getLiveness, HEALTH_CONTENT_TYPE } from '@/lib/healthChecks';
+
+// Liveness: the process is up and serving requests. Dependencies are
+// checked by /api/ready, so a storage outage does not get the instance restarted.
+export const GET = withRoutePolicy('/api/health', async () => {
+  return NextResponse.json({
+    ...getLiveness(),
+    timestamp: new Date().toISOString()
+  }, {
+    headers: { 'Content-Type': HEALTH_CONTENT_TYPE, 'Cache-Control': 'no-store' }
+  });
+});
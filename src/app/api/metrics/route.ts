@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { EDGE_METRICS_HEADER, getMetricsRegistry } from '@/lib/metrics';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/metrics');
+
+// Prometheus scrape target (text format 0.0.4). Admin only, so point the
+// scraper at it with "Authorization: Bearer <ADMIN_TOKEN>".
+export const GET = withRoutePolicy('/api/metrics', async (req: NextRequest) => {
+  try {
+    // Rate-limit counters live in middleware's runtime (see middleware.ts)
+    const edgeMetrics = req.headers.get(EDGE_METRICS_HEADER);
+    const body = getMetricsRegistry().render() + (edgeMetrics ? decodeURIComponent(edgeMetrics) : '');
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Metrics error');
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to render metrics'
+    }, { status: 500 });
+  }
+});
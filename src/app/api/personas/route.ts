@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { PersonaRegistry } from '@/lib/personaRegistry';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/personas');
+
+// Personas a session can choose from (prompts stay on the server)
+export const GET = withRoutePolicy('/api/personas', async () => {
+  try {
+    const registry = PersonaRegistry.getInstance();
+
+    return NextResponse.json({
+      success: true,
+      personas: registry.list(),
+      defaultPersonaId: registry.getDefault().id
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Persona list error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown persona error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
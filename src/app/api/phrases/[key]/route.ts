@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccessControl, withRoutePolicy } from '@/lib/accessControl';
+import { PersonaRegistry } from '@/lib/personaRegistry';
+import { PhraseLibrary, PhraseUnavailableError } from '@/lib/phraseLibrary';
+import { matchesETag } from '@/lib/ttsCache';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/phrases/[key]');
+
+// Pre-rendered audio for one of the persona's canned phrases, e.g.
+// GET /api/phrases/greeting (the session cookie, if any, picks the persona).
+// Not metered: these lines are rendered once and also have to play when the
+// daily limit has been reached. Unknown keys are a 404 so the client can fall
+// back to live TTS. A phrase that just failed to render is a 503 until its
+// retry window ends, so this public route cannot be used to hammer the provider.
+export const GET = withRoutePolicy<{ key: string }>('/api/phrases/[key]', async (req: NextRequest, { params }) => {
+  try {
+    const { key } = params;
+
+    const sessionId = await AccessControl.extractSessionId(req);
+    const persona = await PersonaRegistry.getInstance().resolveForSession(sessionId);
+
+    const speech = await PhraseLibrary.getInstance().get(persona, key);
+    if (!speech) {
+      return NextResponse.json({ success: false, error: 'Unknown phrase' }, { status: 404 });
+    }
+
+    const etag = `"${speech.cacheKey}"`;
+    const headers = {
+      'ETag': etag,
+      'Cache-Control': 'private, max-age=86400',
+      'Vary': 'Cookie', // The persona depends on the session
+      'X-Phrase-Text': encodeURIComponent(speech.text)
+    };
+
+    if (matchesETag(req.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(speech.audio, {
+      headers: {
+        ...headers,
+        'Content-Type': speech.contentType,
+        'Content-Length': speech.audio.length.toString()
+      },
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof PhraseUnavailableError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status, headers: { 'Retry-After': error.retryAfterSeconds.toString() } }
+      );
+    }
+
+    log.error({ err: error }, 'Phrase audio error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown phrase error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { HealthChecker, HEALTH_CONTENT_TYPE } from '@/lib/healthChecks';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/ready');
+
+// Readiness: 200 when this instance can hold a conversation ("pass" or
+// "warn"), 503 when a required dependency fails. Used as Railway's health check.
+export const GET = withRoutePolicy('/api/ready', async () => {
+  try {
+    const report = await HealthChecker.getInstance().getReadiness();
+
+    // Check outputs name the backend, providers and failed jobs, so the public
+    // response only carries statuses (outputs are logged by HealthChecker)
+    const checks = Object.fromEntries(Object.entries(report.checks)
+      .map(([name, { status, durationMs }]) => [name, { status, durationMs }]));
+
+    return NextResponse.json({
+      status: report.status,
+      checks,
+      checkedAt: report.checkedAt.toISOString(),
+      cached: report.cached
+    }, {
+      status: report.status === 'fail' ? 503 : 200,
+      headers: { 'Content-Type': HEALTH_CONTENT_TYPE, 'Cache-Control': 'no-store' }
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Readiness check error');
+    return NextResponse.json({ status: 'fail' }, {
+      status: 503,
+      headers: { 'Content-Type': HEALTH_CONTENT_TYPE, 'Cache-Control': 'no-store' }
+    });
+  }
+});
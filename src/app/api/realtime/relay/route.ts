@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InputValidator } from '@/lib/inputValidation';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { UsageMeter } from '@/lib/usageMeter';
+import { Database } from '@/lib/database';
+import { ConversationMemory } from '@/lib/conversationMemory';
+import { buildInterruptionNote } from '@/lib/prompts';
+import { PersonaRegistry, buildPersonaPrompt } from '@/lib/personaRegistry';
+import { getLLMProvider, LLMMessage } from '@/lib/llmProvider';
+import { getSTTProvider, getTranscriptionLanguage } from '@/lib/sttProvider';
+import { TTSService, resolveTTSDevice } from '@/lib/ttsService';
+import { BudgetExceededError } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/realtime/relay');
+
+const CONTEXT_TURNS = 6; // Recent turns sent verbatim
+
+// Server-side relay for the realtime hooks. Callers authenticate with a token
+// from /api/realtime/token (checked by the route policy) and choose an
+// operation with ?op=; models and parameters are fixed here so the token
+// cannot be used for anything else.
+export const POST = withRoutePolicy('/api/realtime/relay', async (req: NextRequest, { access }) => {
+  try {
+    const sessionId = access.sessionId!;
+
+    const operation = req.nextUrl.searchParams.get('op');
+    switch (operation) {
+      case 'transcription':
+        return await relayTranscription(req, sessionId);
+      case 'chat':
+        return await relayChat(req, sessionId);
+      case 'speech':
+        return await relaySpeech(req, sessionId);
+      default:
+        return NextResponse.json({ error: 'Unknown relay operation' }, { status: 400 });
+    }
+
+  } catch (error: unknown) {
+    if (error instanceof BudgetExceededError) {
+      log.warn({ scope: error.scope }, 'Relay call refused, budget spent');
+      return NextResponse.json({ success: false, error: error.message, budgetExceeded: true }, { status: error.status });
+    }
+
+    log.error({ err: error }, 'Realtime relay error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown relay error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
+
+// Speech to text with the configured STT provider
+async function relayTranscription(req: NextRequest, sessionId: string): Promise<NextResponse> {
+  const formData = await req.formData();
+  const audioFile = formData.get('audio') as File | null;
+
+  if (!audioFile) {
+    return NextResponse.json({ error: 'No audio file provided' }, { status: 400 });
+  }
+
+  const file = new File([await audioFile.arrayBuffer()], audioFile.name || 'audio.webm', {
+    type: audioFile.type || 'audio/webm'
+  });
+
+  const stt = getSTTProvider();
+  if (!stt.isConfigured()) {
+    return NextResponse.json({ error: 'Speech-to-text is not configured' }, { status: 500 });
+  }
+
+  const transcription = await stt.transcribe({
+    audio: file,
+    language: getTranscriptionLanguage()
+  });
+
+  const usage = await UsageMeter.getInstance().recordTranscription(sessionId, transcription.duration);
+
+  return NextResponse.json({
+    success: true,
+    text: transcription.text,
+    confidence: transcription.confidence,
+    remainingSeconds: usage.remainingSeconds
+  });
+}
+
+// One conversation turn with the server-side system prompt
+async function relayChat(req: NextRequest, sessionId: string): Promise<NextResponse> {
+  const { message, interruption } = await req.json();
+
+  const messageValidation = InputValidator.validateChatMessage(message);
+  if (!messageValidation.isValid) {
+    return NextResponse.json({ error: messageValidation.error }, { status: 400 });
+  }
+
+  const db = Database.getInstance();
+
+  const interruptionReport = InputValidator.sanitizeInterruption(interruption);
+  const interruptedTurn = interruptionReport
+    ? await db.applyInterruption(sessionId, interruptionReport.heardText)
+    : null;
+
+  const memory = ConversationMemory.getInstance();
+  const history = await db.getConversationContext(sessionId, CONTEXT_TURNS);
+  const memoryNote = await memory.buildMemoryNote(sessionId);
+
+  const persona = await PersonaRegistry.getInstance().resolveForSession(sessionId);
+
+  const messages: LLMMessage[] = [
+    { role: 'system', content: buildPersonaPrompt(persona) },
+    ...(memoryNote ? [{ role: 'system' as const, content: memoryNote }] : []),
+    ...history,
+    ...(interruptedTurn ? [{ role: 'system' as const, content: buildInterruptionNote(interruptedTurn.content) }] : []),
+    { role: 'user', content: messageValidation.sanitized! }
+  ];
+
+  const llm = getLLMProvider();
+  if (!llm.isConfigured()) {
+    return NextResponse.json({ error: 'Chat model is not configured' }, { status: 500 });
+  }
+
+  let reply: string;
+  try {
+    reply = await llm.complete({
+      messages,
+      temperature: persona.temperature,
+      maxTokens: Math.min(persona.maxTokens, 60),
+      stop: ['\n', ...persona.stopSequences]
+    });
+  } catch (error) {
+    // Over a spending budget the provider refuses the call; the persona's canned line answers instead
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({ success: true, response: persona.phrases['budget-reached'], budgetExceeded: true });
+    }
+    throw error;
+  }
+
+  const response = reply.trim() || persona.fallbackResponse;
+  await db.recordConversationExchange(sessionId, messageValidation.sanitized!, response);
+  memory.scheduleUpdate(sessionId, CONTEXT_TURNS);
+  const usage = await UsageMeter.getInstance().recordChat(sessionId);
+
+  return NextResponse.json({
+    success: true,
+    response,
+    remainingSeconds: usage.remainingSeconds
+  });
+}
+
+// Text to speech
+async function relaySpeech(req: NextRequest, sessionId: string): Promise<NextResponse> {
+  const { text, device } = await req.json();
+
+  const textValidation = InputValidator.validateChatMessage(text);
+  if (!textValidation.isValid) {
+    return NextResponse.json({ error: textValidation.error }, { status: 400 });
+  }
+
+  const tts = TTSService.getInstance();
+  if (!tts.isConfigured()) {
+    return NextResponse.json({ error: 'Text-to-speech is not configured' }, { status: 500 });
+  }
+
+  const speech = await tts.synthesize({
+    text: textValidation.sanitized!,
+    sessionId,
+    device: resolveTTSDevice(device, req.headers.get('user-agent') || '')
+  });
+
+  const meter = UsageMeter.getInstance();
+  const usage = await meter.recordSynthesis(sessionId, meter.estimateSpeechSeconds(speech.text, speech.speed));
+
+  return new NextResponse(speech.audio, {
+    headers: {
+      'Content-Type': speech.contentType,
+      'Content-Length': speech.audio.length.toString(),
+      'X-Remaining-Seconds': usage.remainingSeconds.toString()
+    },
+  });
+}
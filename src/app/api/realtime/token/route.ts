@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { RealtimeTokenService, RealtimeTokenError } from '@/lib/realtimeTokens';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/realtime/token');
+
+// Mint a short-lived relay token for the caller's session
+export const POST = withRoutePolicy('/api/realtime/token', async (req: NextRequest, { access: accessResult }) => {
+  try {
+    const issued = await RealtimeTokenService.getInstance().issueToken(accessResult.sessionId!);
+
+    log.info({ sessionId: accessResult.sessionId }, 'Realtime token issued');
+
+    return NextResponse.json({
+      success: true,
+      token: issued.token,
+      scope: issued.scope,
+      expiresAt: issued.expiresAt,
+      ttlSeconds: issued.ttlSeconds
+    }, {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof RealtimeTokenError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    log.error({ err: error }, 'Realtime token error');
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to issue realtime token'
+    }, { status: 500 });
+  }
+});
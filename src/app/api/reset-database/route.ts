@@ -1,20 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { getClientIp } from '@/lib/clientIdentity';
 import { Database } from '@/lib/database';
+import { createLogger } from '@/lib/logger';
 
-export async function POST(request: NextRequest) {
+const log = createLogger('api/reset-database');
+
+// Wipes all users, conversation history and memory. Admin only, and the body
+// must be { "confirm": "reset" } so it cannot be triggered by accident.
+export const POST = withRoutePolicy('/api/reset-database', async (request: NextRequest, { admin }) => {
   try {
+    const body = await request.json().catch(() => ({}));
+    if (body.confirm !== 'reset') {
+      return NextResponse.json({
+        success: false,
+        error: 'Send { "confirm": "reset" } to reset the database'
+      }, { status: 400 });
+    }
+
     const database = Database.getInstance();
     await database.resetDatabase();
-    
+    await database.recordAuditEvent({
+      action: 'database.reset',
+      actor: admin!.actor,
+      ipAddress: getClientIp(request)
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Database reset successfully'
     });
   } catch (error) {
-    console.error('Failed to reset database:', error);
+    log.error({ err: error }, 'Failed to reset database');
     return NextResponse.json({
       success: false,
       error: 'Failed to reset database'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
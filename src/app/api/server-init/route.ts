@@ -1,20 +1,22 @@
 import { NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { createLogger } from '@/lib/logger';
 
-export async function GET() {
+const log = createLogger('api/server-init');
+
+export const GET = withRoutePolicy('/api/server-init', async () => {
   try {
-    console.log('🚀 Server initialization check');
-    
-    // Simple health check
+    // Kept for existing clients; deployments should probe /api/health and /api/ready
     return NextResponse.json({
       success: true,
       message: 'Server is ready',
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    console.error('Server init error:', error);
+    log.error({ err: error }, 'Server init error');
     return NextResponse.json({
       success: false,
       error: 'Server initialization failed'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
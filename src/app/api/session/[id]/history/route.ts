@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { Database } from '@/lib/database';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/session/[id]/history');
+
+export const GET = withRoutePolicy<{ id: string }>('/api/session/[id]/history', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+
+    const { searchParams } = new URL(req.url);
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? Math.min(Math.max(parseInt(limitParam, 10) || 0, 1), 200) : 50;
+
+    const turns = await Database.getInstance().getConversationHistory(sessionId, limit);
+
+    return NextResponse.json({
+      success: true,
+      history: turns.map(turn => ({
+        id: turn.id,
+        role: turn.role,
+        content: turn.content,
+        interrupted: turn.interrupted,
+        createdAt: turn.createdAt
+      }))
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'History fetch error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown history error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
+
+export const DELETE = withRoutePolicy<{ id: string }>('/api/session/[id]/history', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+
+    const deletedCount = await Database.getInstance().clearConversationHistory(sessionId);
+    log.info({ sessionId, deletedCount }, 'Cleared conversation turns');
+
+    return NextResponse.json({ success: true, deletedCount });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'History delete error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown history error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
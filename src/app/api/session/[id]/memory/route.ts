@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { ConversationMemory } from '@/lib/conversationMemory';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/session/[id]/memory');
+
+// What Samantha remembers about this session (summary + extracted facts)
+export const GET = withRoutePolicy<{ id: string }>('/api/session/[id]/memory', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+
+    const memory = ConversationMemory.getInstance();
+    const snapshot = await memory.getSnapshot(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      memory: {
+        summary: snapshot.summary,
+        facts: snapshot.facts,
+        updatedAt: snapshot.updatedAt
+      },
+      prompt: await memory.buildMemoryNote(sessionId) // Exactly what the model sees
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Memory fetch error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown memory error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
+
+// Forget the summary and facts (the turn history is cleared separately)
+export const DELETE = withRoutePolicy<{ id: string }>('/api/session/[id]/memory', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+
+    const deleted = await ConversationMemory.getInstance().forget(sessionId);
+    log.info({ sessionId }, 'Cleared long-term memory');
+
+    return NextResponse.json({ success: true, deleted });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Memory delete error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown memory error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { PersonaRegistry } from '@/lib/personaRegistry';
+import { SessionManager } from '@/lib/sessionManager';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('api/session/[id]/persona');
+
+export const GET = withRoutePolicy<{ id: string }>('/api/session/[id]/persona', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+
+    const persona = await PersonaRegistry.getInstance().resolveForSession(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      persona: { id: persona.id, name: persona.name, description: persona.description, voice: persona.voice }
+    });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Persona fetch error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown persona error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
+
+// Switch the session to another persona; takes effect on the next reply
+export const PUT = withRoutePolicy<{ id: string }>('/api/session/[id]/persona', async (req: NextRequest, { params }) => {
+  try {
+    const { id: sessionId } = params;
+
+    const { personaId } = await req.json();
+    const registry = PersonaRegistry.getInstance();
+
+    if (typeof personaId !== 'string' || !registry.has(personaId)) {
+      return NextResponse.json({ success: false, error: 'Unknown persona' }, { status: 400 });
+    }
+
+    await SessionManager.getInstance().setPersonaId(sessionId, personaId);
+    log.info({ sessionId, personaId }, 'Switched persona');
+
+    return NextResponse.json({ success: true, personaId });
+
+  } catch (error: unknown) {
+    log.error({ err: error }, 'Persona update error');
+    const errorMessage = error instanceof Error ? error.message : 'Unknown persona error';
+    return NextResponse.json({ 
+      success: false, 
+      error: errorMessage 
+    }, { status: 500 });
+  }
+});
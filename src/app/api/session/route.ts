@@ -1,25 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AccessControl, withRoutePolicy } from '@/lib/accessControl';
+import { getClientIp } from '@/lib/clientIdentity';
+import { SessionCookieService } from '@/lib/sessionCookies';
 import { SessionManager } from '@/lib/sessionManager';
+import { createLogger } from '@/lib/logger';
 
-export async function POST(req: NextRequest) {
+const log = createLogger('api/session');
+
+// Starts or resumes the caller's session. The session lives in a signed
+// HttpOnly cookie. A valid cookie is kept as it is, so requests already using
+// it keep working; a new credential is only issued for a new session or after
+// the session's privileges changed (an admin grant), which makes copies of the
+// old cookie stop working. The response carries the session ID (for
+// /api/session/<id>/... URLs) and the CSRF token for state-changing requests.
+export const POST = withRoutePolicy('/api/session', async (req: NextRequest) => {
   try {
-    const { sessionId } = await req.json();
+    const cookies = SessionCookieService.getInstance();
+    const existingCookie = cookies.read(req);
+    const existingSessionId = await AccessControl.extractSessionId(req);
     
     const sessionManager = SessionManager.getInstance();
     
     // Get client information
     const userAgent = req.headers.get('user-agent') || 'unknown';
-    const clientIpAddress = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
+    const clientIpAddress = getClientIp(req);
 
     // Get or create session
-    const result = await sessionManager.getOrCreateSession(sessionId, userAgent, clientIpAddress);
+    const result = await sessionManager.getOrCreateSession(existingSessionId || undefined, userAgent, clientIpAddress);
+
+    const keepCredential = existingCookie?.sessionId === result.sessionId
+      && !result.isNew
+      && !await sessionManager.isCredentialRotationDue(result.sessionId);
+
+    const credentialId = keepCredential
+      ? existingCookie.credentialId
+      : await sessionManager.issueCredential(result.sessionId);
+    if (!credentialId) {
+      throw new Error('Session disappeared while issuing its cookie');
+    }
+    const cookie = { sessionId: result.sessionId, credentialId };
 
     // Check access status
     const accessResult = await sessionManager.checkAccess(result.sessionId, userAgent, clientIpAddress);
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       sessionId: result.sessionId,
+      csrfToken: cookies.csrfTokenFor(cookie),
       isNew: result.isNew,
       hasAccess: accessResult.hasAccess,
       reason: accessResult.reason,
@@ -33,31 +60,33 @@ export async function POST(req: NextRequest) {
         trialExpiresAt: (result.user as any).trialExpiresAt
       }
     });
+    cookies.attach(response, cookie);
+    return response;
 
   } catch (error: unknown) {
-    console.error('Session creation error:', error);
+    log.error({ err: error }, 'Session creation error');
     const errorMessage = error instanceof Error ? error.message : 'Unknown session error';
     return NextResponse.json({ 
       success: false, 
       error: errorMessage 
     }, { status: 500 });
   }
-}
+});
 
-export async function GET(req: NextRequest) {
+// Access status of the caller's session
+export const GET = withRoutePolicy('/api/session', async (req: NextRequest) => {
   try {
-    const { searchParams } = new URL(req.url);
-    const sessionId = searchParams.get('sessionId');
+    const sessionId = await AccessControl.extractSessionId(req);
 
     if (!sessionId) {
-      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+      return AccessControl.createSessionRequiredResponse();
     }
 
     const sessionManager = SessionManager.getInstance();
     
     // Get client information
     const userAgent = req.headers.get('user-agent') || 'unknown';
-    const clientIpAddress = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
+    const clientIpAddress = getClientIp(req);
 
     // Check access status
     const accessResult = await sessionManager.checkAccess(sessionId, userAgent, clientIpAddress);
@@ -72,11 +101,11 @@ export async function GET(req: NextRequest) {
     });
 
   } catch (error: unknown) {
-    console.error('Session check error:', error);
+    log.error({ err: error }, 'Session check error');
     const errorMessage = error instanceof Error ? error.message : 'Unknown session error';
     return NextResponse.json({ 
       success: false, 
       error: errorMessage 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
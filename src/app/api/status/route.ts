@@ -1,7 +1,13 @@
 import { NextResponse } from 'next/server';
+import { withRoutePolicy } from '@/lib/accessControl';
 import { Database } from '@/lib/database';
+import { TTSAudioCache } from '@/lib/ttsCache';
+import { CostAccountant } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
 
-export async function GET() {
+const log = createLogger('api/status');
+
+export const GET = withRoutePolicy('/api/status', async () => {
   try {
     const database = Database.getInstance();
     
@@ -22,15 +28,18 @@ export async function GET() {
         totalDailyUsage: stats.totalDailyUsage,
         averageUsagePerUser: stats.averageUsagePerUser
       },
+      ttsCache: TTSAudioCache.getInstance().stats(),
+      // Amounts are for admins (see /api/admin/sessions); the state is enough here
+      budget: { state: (await CostAccountant.getInstance().getBudgetStatus(null)).state },
       timestamp: new Date().toISOString()
     });
 
   } catch (error: unknown) {
-    console.error('Status check error:', error);
+    log.error({ err: error }, 'Status check error');
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ 
       success: false, 
       error: errorMessage 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
\ No newline at end of file
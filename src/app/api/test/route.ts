@@ -1,48 +1,46 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { getLLMProvider } from '@/lib/llmProvider';
+import { createLogger } from '@/lib/logger';
 
-export async function GET() {
+const log = createLogger('api/test');
+
+export const GET = withRoutePolicy('/api/test', async () => {
   try {
-    console.log('🧪 Testing API configuration...');
-    
+    const llm = getLLMProvider();
     const results = {
-      openai: { success: false, error: null as string | null }
+      llm: { success: false, provider: llm.name, model: llm.model, error: null as string | null }
     };
     
-    // Test OpenAI
-    if (process.env.OPENAI_API_KEY) {
+    // Test the chat model backend
+    if (llm.isConfigured()) {
       try {
-        const openai = new OpenAI({
-          apiKey: process.env.OPENAI_API_KEY,
-        });
-
-        await openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
+        await llm.complete({
           messages: [{ role: 'user', content: 'Hello' }],
-          max_tokens: 5,
+          maxTokens: 5,
         });
 
-        results.openai.success = true;
-        console.log('✅ OpenAI API test successful');
+        results.llm.success = true;
+        log.info({ provider: llm.name }, 'LLM test succeeded');
       } catch (error) {
-        results.openai.error = error instanceof Error ? error.message : 'Unknown error';
-        console.log('❌ OpenAI API test failed:', results.openai.error);
+        results.llm.error = error instanceof Error ? error.message : 'Unknown error';
+        log.warn({ provider: llm.name, reason: results.llm.error }, 'LLM test failed');
       }
     } else {
-      results.openai.error = 'OpenAI API key not configured';
+      results.llm.error = 'OpenAI API key not configured';
     }
 
     return NextResponse.json({ 
-      success: results.openai.success,
+      success: results.llm.success,
       results
     });
     
   } catch (error) {
-    console.error('Test error:', error);
+    log.error({ err: error }, 'Test error');
     return NextResponse.json({ 
       success: false, 
       error: 'Test failed',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
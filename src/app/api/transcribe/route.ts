@@ -1,64 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { UsageMeter } from '@/lib/usageMeter';
+import { getSTTProvider, getTranscriptionLanguage, DEFAULT_TRANSCRIPTION_PROMPT } from '@/lib/sttProvider';
+import { BudgetExceededError } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const log = createLogger('api/transcribe');
 
-export async function POST(req: NextRequest) {
+export const POST = withRoutePolicy('/api/transcribe', async (req: NextRequest, { access }) => {
   try {
-    console.log('🎤 Transcribe API Route called');
-    
-    if (!process.env.OPENAI_API_KEY) {
+    const stt = getSTTProvider();
+    if (!stt.isConfigured()) {
       return NextResponse.json({ error: 'OpenAI API key is not configured' }, { status: 500 });
     }
 
     const formData = await req.formData();
     const audioFile = formData.get('audio') as File;
-    const sessionId = formData.get('sessionId') as string;
     
     if (!audioFile) {
       return NextResponse.json({ error: 'No audio file provided' }, { status: 400 });
     }
 
-    if (!sessionId) {
-      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
-    }
+    // The policy layer has checked this session's access and daily limit
+    const sessionId = access.sessionId!;
 
-    console.log('🎤 Transcribing audio for session:', sessionId.substring(0, 8) + '...');
-
-    // Convert File to Buffer for OpenAI API
+    // Re-wrap the upload with a name and type the providers can rely on
     const arrayBuffer = await audioFile.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-    
-    // Create a File-like object that OpenAI expects
-    const file = new File([buffer], audioFile.name || 'audio.wav', {
+    const file = new File([arrayBuffer], audioFile.name || 'audio.wav', {
       type: audioFile.type || 'audio/wav'
     });
     
-    // Use OpenAI Whisper to transcribe the audio
-    const transcription = await openai.audio.transcriptions.create({
-      file: file,
-      model: 'whisper-1',
-      language: 'en',
-      response_format: 'text',
-      temperature: 0.1, // Low temperature for accuracy
-      prompt: "This is a conversation with an AI assistant named Samantha. The user is speaking naturally and conversationally. Please transcribe their words accurately."
+    const transcription = await stt.transcribe({
+      audio: file,
+      language: getTranscriptionLanguage(),
+      prompt: process.env.STT_PROMPT || DEFAULT_TRANSCRIPTION_PROMPT
     });
     
-    console.log('✅ Transcription completed:', transcription.substring(0, 50) + '...');
+    log.info({ provider: stt.name, duration: transcription.duration, transcript: transcription.text }, 'Transcription completed');
+
+    // Debit the transcribed audio against the daily limit
+    const usage = await UsageMeter.getInstance().recordTranscription(sessionId, transcription.duration);
     
     return NextResponse.json({ 
       success: true,
-      text: transcription
+      text: transcription.text,
+      language: transcription.language,
+      duration: transcription.duration,
+      confidence: transcription.confidence,
+      segments: transcription.segments,
+      remainingSeconds: usage.remainingSeconds
     });
 
   } catch (error: unknown) {
-    console.error('Transcription error:', error);
+    if (error instanceof BudgetExceededError) {
+      log.warn({ scope: error.scope }, 'Transcription refused, budget spent');
+      return NextResponse.json({ success: false, error: error.message, budgetExceeded: true }, { status: error.status });
+    }
+
+    log.error({ err: error }, 'Transcription error');
     const errorMessage = error instanceof Error ? error.message : 'Unknown transcription error';
     return NextResponse.json({ 
       success: false, 
       error: errorMessage 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
@@ -1,59 +1,80 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { requireAccess, AccessControlResult } from '@/lib/accessControl';
+import { withRoutePolicy } from '@/lib/accessControl';
+import { UsageMeter } from '@/lib/usageMeter';
+import { InputValidator } from '@/lib/inputValidation';
+import { TTSService, resolveTTSDevice } from '@/lib/ttsService';
+import { matchesETag } from '@/lib/ttsCache';
+import { BudgetExceededError } from '@/lib/costAccounting';
+import { createLogger } from '@/lib/logger';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const log = createLogger('api/tts');
 
-export const POST = requireAccess(async (req: NextRequest, accessResult: AccessControlResult) => {
+// The single speech endpoint. Body: { text, device? } where device
+// is "desktop" or "mobile" (guessed from the user agent when omitted).
+// Responses carry an ETag; sending it back in If-None-Match returns 304.
+export const POST = withRoutePolicy('/api/tts', async (req: NextRequest, { access: accessResult }) => {
   try {
-    console.log('🔊 TTS API Route called with access control');
-    
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: 'OpenAI API key is not configured' }, { status: 500 });
+    const tts = TTSService.getInstance();
+    if (!tts.isConfigured()) {
+      log.error({ provider: tts.providerName }, 'TTS provider is not configured');
+      return NextResponse.json({ error: 'Text-to-speech is not configured' }, { status: 500 });
     }
 
-    // Parse request body to get session ID and text
+    // The session comes from the cookie (see withRoutePolicy)
     const body = await req.json();
-    const { text, sessionId } = body;
-    
-    // Validate session ID from body matches access control
-    if (sessionId !== accessResult.sessionId) {
-      console.error('❌ Session ID mismatch in TTS');
-      return NextResponse.json({ error: 'Session ID mismatch' }, { status: 403 });
-    }
-    
-    if (!text || typeof text !== 'string') {
-      return NextResponse.json({ error: 'Text is required' }, { status: 400 });
-    }
+    const { text, device } = body;
 
-    console.log('🔐 TTS access granted for session:', accessResult.sessionId?.substring(0, 8) + '...');
+    // Clients send one sentence per request (see ttsPlaybackQueue); the device
+    // profile caps anything longer
+    const textValidation = InputValidator.validateChatMessage(text);
+    if (!textValidation.isValid) {
+      log.warn({ reason: textValidation.error }, 'Invalid TTS text');
+      return NextResponse.json({ error: textValidation.error }, { status: 400 });
+    }
 
-    // Use OpenAI TTS with faster model for speed while maintaining quality
-    const mp3 = await openai.audio.speech.create({
-      model: 'tts-1', // Faster TTS model (still high quality)
-      voice: 'nova', // Most natural and expressive voice - perfect for waifu personality
-      input: text,
-      speed: 1.1, // Slightly faster for quicker responses
+    const job = await tts.prepare({
+      text: textValidation.sanitized!,
+      sessionId: accessResult.sessionId,
+      device: resolveTTSDevice(device, req.headers.get('user-agent') || '')
     });
 
-    // Convert the response to a buffer
-    const buffer = Buffer.from(await mp3.arrayBuffer());
+    // The cache key identifies the audio, so a client holding it can skip the download.
+    // Replayed audio is still heard, so it counts against the daily limit either way.
+    const etag = `"${job.cacheKey}"`;
+    if (matchesETag(req.headers.get('if-none-match'), etag)) {
+      const usage = await debitSpeech(accessResult.sessionId!, job.text, job.speed);
+      return new NextResponse(null, {
+        status: 304,
+        headers: { 'ETag': etag, 'X-TTS-Cache': 'HIT', 'X-Remaining-Seconds': usage.remainingSeconds.toString() }
+      });
+    }
+
+    const speech = await tts.synthesize(job);
+    const usage = await debitSpeech(accessResult.sessionId!, speech.text, speech.speed);
 
-    // Return the audio as a response
-    return new NextResponse(buffer, {
+    return new NextResponse(speech.audio, {
       headers: {
-        'Content-Type': 'audio/mpeg',
-        'Content-Length': buffer.length.toString(),
+        'Content-Type': speech.contentType,
+        'Content-Length': speech.audio.length.toString(),
+        'ETag': etag,
+        'Cache-Control': 'private, max-age=3600',
+        'X-TTS-Cache': speech.cached ? 'HIT' : 'MISS',
         'X-Session-ID': accessResult.sessionId || '',
-        'X-Access-Reason': accessResult.reason
+        'X-Access-Reason': accessResult.reason,
+        'X-Remaining-Seconds': usage.remainingSeconds.toString(),
+        'X-TTS-Device': speech.device
       },
     });
 
   } catch (error: unknown) {
-    console.error('TTS API error:', error);
-    
+    // Cached audio is still served; only new synthesis is refused
+    if (error instanceof BudgetExceededError) {
+      log.warn({ scope: error.scope }, 'Synthesis refused, budget spent');
+      return NextResponse.json({ error: error.message, budgetExceeded: true }, { status: error.status });
+    }
+
+    log.error({ err: error }, 'TTS API error');
+
     const errorObj = error as { status?: number; message?: string };
     if (errorObj.status === 401) {
       return NextResponse.json({ error: 'Invalid OpenAI API key' }, { status: 500 });
@@ -62,9 +83,15 @@ export const POST = requireAccess(async (req: NextRequest, accessResult: AccessC
     } else if (errorObj.status === 402) {
       return NextResponse.json({ error: 'OpenAI API quota exceeded' }, { status: 500 });
     } else {
-      return NextResponse.json({ 
-        error: `OpenAI TTS API error: ${errorObj.message || 'Unknown error'}` 
+      return NextResponse.json({
+        error: `TTS error: ${errorObj.message || 'Unknown error'}`
       }, { status: 500 });
     }
   }
-}); 
\ No newline at end of file
+});
+
+// Debit audio that starts playing now against the daily limit
+async function debitSpeech(sessionId: string, text: string, speed: number) {
+  const meter = UsageMeter.getInstance();
+  return await meter.recordSynthesis(sessionId, meter.estimateSpeechSeconds(text, speed));
+}
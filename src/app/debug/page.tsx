@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { csrfHeaders } from '@/lib/sessionCredentials';
 
 export default function DebugPage() {
   const [logs, setLogs] = useState<string[]>([]);
@@ -18,9 +19,7 @@ export default function DebugPage() {
     try {
       addLog('🔄 Testing session creation...');
       const response = await fetch('/api/session', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId: null })
+        method: 'POST'
       });
       
       const data = await response.json();
@@ -39,10 +38,10 @@ export default function DebugPage() {
   const testTTS = async () => {
     try {
       addLog('🔄 Testing TTS...');
-      const response = await fetch('/api/tts-mobile', {
+      const response = await fetch('/api/tts', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: testMessage })
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        body: JSON.stringify({ text: testMessage, device: 'mobile' })
       });
       
       if (response.ok) {
@@ -74,10 +73,9 @@ export default function DebugPage() {
       addLog('🔄 Testing chat...');
       const response = await fetch('/api/chat-fast', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
         body: JSON.stringify({ 
-          message: testMessage,
-          sessionId: sessionId
+          message: testMessage
         })
       });
       
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import VoiceVisualization from '@/components/VoiceVisualization';
 import VoiceManager from '@/components/VoiceManager';
+import { startSession } from '@/lib/sessionCredentials';
 
 export default function Home() {
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -22,23 +23,11 @@ export default function Home() {
       try {
         console.log('Initializing session...');
         
-        const existingSessionId = localStorage.getItem('samantha_session_id');
-        
-        const response = await fetch('/api/session', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sessionId: existingSessionId })
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to create session');
-        }
-        
-        const data = await response.json();
+        // Resumes the session from its HttpOnly cookie, or starts a new one
+        const data = await startSession();
         
         if (data.success) {
           setSessionId(data.sessionId);
-          localStorage.setItem('samantha_session_id', data.sessionId);
           console.log('Session initialized:', data.sessionId.substring(0, 8) + '...');
         } else {
           throw new Error(data.error || 'Session creation failed');
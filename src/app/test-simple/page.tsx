@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useOptimizedVoiceProcessing } from '@/hooks/useOptimizedVoiceProcessing';
 import SimpleVoiceTest from '@/components/SimpleVoiceTest';
+import { csrfHeaders } from '@/lib/sessionCredentials';
 
 export default function TestSimple() {
   const [sessionId, setSessionId] = useState<string>('');
@@ -16,9 +17,7 @@ export default function TestSimple() {
     const initSession = async () => {
       try {
         const response = await fetch('/api/session', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sessionId: null })
+          method: 'POST'
         });
         
         const data = await response.json();
@@ -53,10 +52,10 @@ export default function TestSimple() {
 
   const handleTestTTS = async () => {
     try {
-      const response = await fetch('/api/tts-mobile', {
+      const response = await fetch('/api/tts', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: testMessage })
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        body: JSON.stringify({ text: testMessage, device: 'mobile' })
       });
 
       if (response.ok) {
@@ -74,10 +73,9 @@ export default function TestSimple() {
     try {
       const response = await fetch('/api/chat-fast', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
         body: JSON.stringify({ 
-          message: testMessage,
-          sessionId: sessionId
+          message: testMessage
         })
       });
 
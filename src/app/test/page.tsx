@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useVoiceProcessing } from '@/hooks/useVoiceProcessing';
+import { csrfHeaders } from '@/lib/sessionCredentials';
 
 export default function TestPage() {
   const [sessionId, setSessionId] = useState<string>('');
@@ -15,9 +16,7 @@ export default function TestPage() {
     const initSession = async () => {
       try {
         const response = await fetch('/api/session', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sessionId: null })
+          method: 'POST'
         });
         
         const data = await response.json();
@@ -52,10 +51,10 @@ export default function TestPage() {
 
   const handleTestTTS = async () => {
     try {
-      const response = await fetch('/api/tts-mobile', {
+      const response = await fetch('/api/tts', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: testMessage })
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        body: JSON.stringify({ text: testMessage, device: 'mobile' })
       });
 
       if (response.ok) {
@@ -73,10 +72,9 @@ export default function TestPage() {
     try {
       const response = await fetch('/api/chat-fast', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
         body: JSON.stringify({ 
-          message: testMessage,
-          sessionId: sessionId
+          message: testMessage
         })
       });
 
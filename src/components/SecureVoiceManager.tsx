@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useFastVoiceProcessing } from '@/hooks/useFastVoiceProcessing';
+import { playPhrase } from '@/lib/phrasePlayer';
+import { startSession } from '@/lib/sessionCredentials';
 import { useMicrophonePermission } from '@/hooks/useMicrophonePermission';
 
 interface SecureVoiceManagerProps {
@@ -43,7 +45,7 @@ export default function SecureVoiceManager({
   const trialTimerRef = useRef<NodeJS.Timeout | null>(null);
   const hasShownPaymentRef = useRef(false);
 
-  const fastVoice = useFastVoiceProcessing();
+  const fastVoice = useFastVoiceProcessing(sessionId || undefined);
   const microphonePermission = useMicrophonePermission();
 
   // Create refs for fastVoice functions to avoid dependency issues
@@ -92,20 +94,11 @@ export default function SecureVoiceManager({
   useEffect(() => {
     const initializeSession = async () => {
       try {
-        // Use prop sessionId if available, otherwise get from localStorage
-        const existingSessionId = propSessionId || localStorage.getItem('samantha_session_id');
-        
-        const response = await fetch('/api/session', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sessionId: existingSessionId })
-        });
-        
-        const data = await response.json();
+        // Shared with the page, so only one call starts the session
+        const data = await startSession();
         
         if (data.success) {
           setSessionId(data.sessionId);
-          localStorage.setItem('samantha_session_id', data.sessionId);
           
           // Update access status
           setHasWalletAccess(data.hasAccess);
@@ -140,11 +133,8 @@ export default function SecureVoiceManager({
       if (!sessionId) return;
       
       try {
-        const response = await fetch('/api/session', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ sessionId })
-        });
+        // Also rotates the session cookie if an admin changed its access
+        const response = await fetch('/api/session', { method: 'POST' });
         
         const data = await response.json();
         
@@ -451,11 +441,7 @@ export default function SecureVoiceManager({
       // First, refresh session access status before making decisions
       if (sessionId) {
         try {
-          const response = await fetch('/api/session', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ sessionId })
-          });
+          const response = await fetch('/api/session', { method: 'POST' });
           
           const data = await response.json();
           
@@ -607,6 +593,9 @@ export default function SecureVoiceManager({
         console.log('⏰ Trial time expired, showing payment modal');
         setSessionEnded(true);
         onSessionEndedChange?.(true);
+        playPhrase('limit-reached', { sessionId }).catch((error) => {
+          console.warn('Failed to play limit-reached phrase:', error);
+        });
         // Show payment modal instead of redirecting
         onRequirePaymentRef.current?.();
         return;
@@ -616,7 +605,7 @@ export default function SecureVoiceManager({
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [hasStarted, sessionEnded, hasWalletAccess, onSessionEndedChange, onSessionTimeChange, trialTimeLeft]);
+  }, [hasStarted, sessionEnded, hasWalletAccess, onSessionEndedChange, onSessionTimeChange, trialTimeLeft, sessionId]);
 
   // Don't render anything - this is a headless component
   return null;
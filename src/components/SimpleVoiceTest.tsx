@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useOptimizedVoiceProcessing } from '@/hooks/useOptimizedVoiceProcessing';
+import { csrfHeaders } from '@/lib/sessionCredentials';
 
 interface SimpleVoiceTestProps {
   sessionId: string;
@@ -41,10 +42,10 @@ export default function SimpleVoiceTest({ sessionId }: SimpleVoiceTestProps) {
   const handleTestTTS = async () => {
     try {
       console.log('🎤 Testing TTS...');
-      const response = await fetch('/api/tts-mobile', {
+      const response = await fetch('/api/tts', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: testMessage })
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        body: JSON.stringify({ text: testMessage, device: 'mobile' })
       });
 
       if (response.ok) {
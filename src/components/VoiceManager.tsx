@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useVoiceProcessing } from '@/hooks/useVoiceProcessing';
+import { playPhrase, preloadPhrases } from '@/lib/phrasePlayer';
 
 interface VoiceManagerProps {
   sessionId: string;
@@ -46,10 +47,20 @@ export default function VoiceManager({
     onError?.(voiceProcessing.error);
   }, [voiceProcessing.error, onError]);
 
+  // Tell the user something went wrong with a pre-rendered line (no live TTS round trip)
+  useEffect(() => {
+    if (voiceProcessing.error && hasStarted) {
+      playPhrase('error', { sessionId }).catch((error) => {
+        console.warn('Failed to play error phrase:', error);
+      });
+    }
+  }, [voiceProcessing.error, hasStarted, sessionId]);
+
   // Set ready state when session is available
   useEffect(() => {
     if (sessionId && !isReady) {
       setIsReady(true);
+      preloadPhrases(['greeting', 'error'], sessionId);
     }
   }, [sessionId, isReady]);
 
@@ -58,8 +69,15 @@ export default function VoiceManager({
     const handleStartListening = async () => {
       if (!hasStarted) {
         setHasStarted(true);
+
+        // Greet before the microphone opens so the greeting is not heard as speech
+        try {
+          await playPhrase('greeting', { sessionId });
+        } catch (error) {
+          console.warn('Failed to play greeting:', error);
+        }
       }
-      
+
       try {
         await voiceProcessing.startListening();
       } catch (error) {
@@ -88,7 +106,7 @@ export default function VoiceManager({
       window.removeEventListener('stopListening', handleStopListening);
       window.removeEventListener('manualComplete', handleManualComplete);
     };
-  }, [hasStarted, voiceProcessing]);
+  }, [hasStarted, voiceProcessing, sessionId]);
 
   return null; // This component doesn't render anything
 } 
\ No newline at end of file
@@ -16,6 +16,7 @@ interface VoiceManagerRealtimeProps {
   onSessionEndedChange?: (sessionEnded: boolean) => void;
   onRequirePayment?: () => void;
   onManualStartListening?: (startFn: () => void) => void;
+  sessionId?: string;
 }
 
 export default function VoiceManagerRealtime({
@@ -28,7 +29,8 @@ export default function VoiceManagerRealtime({
   onSessionTimeChange,
   onSessionEndedChange,
   onRequirePayment,
-  onManualStartListening
+  onManualStartListening,
+  sessionId
 }: VoiceManagerRealtimeProps) {
   const [hasStarted, setHasStarted] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
@@ -38,7 +40,7 @@ export default function VoiceManagerRealtime({
   const sessionManagerRef = useRef(getSessionManager());
   const hasShownPaymentRef = useRef(false);
 
-  const realtimeVoice = useOpenAIRealtime();
+  const realtimeVoice = useOpenAIRealtime(sessionId);
   const textToSpeech = useOpenAITTS();
 
   // Track if component has mounted on client side
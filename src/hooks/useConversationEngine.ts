@@ -0,0 +1,162 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  ConversationEngine,
+  type ConversationEngineOptions,
+  type ConversationState,
+  type ConversationTransports,
+  type Interruption
+} from '@/lib/conversationEngine';
+
+export interface UseConversationEngineOptions extends Omit<ConversationEngineOptions, 'transports'> {
+  transports: ConversationTransports | null; // null until the session is known
+  outputMuted?: boolean;
+}
+
+export interface ConversationEngineReturn {
+  state: ConversationState;
+  isListening: boolean;
+  isSpeaking: boolean;
+  isProcessing: boolean;
+  isConnected: boolean;
+  isSupported: boolean;
+  transcript: string;
+  response: string;
+  error: string | null;
+  lastInterruption: Interruption | null;
+  startListening: () => Promise<void>;
+  stopListening: () => void;
+  sendMessage: (message: string) => Promise<void>;
+  interrupt: () => void;
+  resetConversation: () => void;
+}
+
+// React binding for ConversationEngine: one engine per set of transports
+export function useConversationEngine(options: UseConversationEngineOptions): ConversationEngineReturn {
+  const { transports, vadSensitivity, continuous, bargeIn, minUtteranceMs, maxUtteranceMs, outputMuted = false } = options;
+
+  const [state, setState] = useState<ConversationState>('idle');
+  const [isConnected, setIsConnected] = useState(false);
+  const [transcript, setTranscript] = useState('');
+  const [response, setResponse] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [lastInterruption, setLastInterruption] = useState<Interruption | null>(null);
+
+  const engineRef = useRef<ConversationEngine | null>(null);
+  const outputMutedRef = useRef(outputMuted);
+
+  const isSupported = typeof window !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    !!(window.AudioContext || (window as any).webkitAudioContext);
+
+  useEffect(() => {
+    if (!transports) return;
+
+    const engine = new ConversationEngine({
+      transports,
+      vadSensitivity,
+      continuous,
+      bargeIn,
+      minUtteranceMs,
+      maxUtteranceMs
+    });
+    engine.setOutputMuted(outputMutedRef.current);
+    engineRef.current = engine;
+
+    const unsubscribe = engine.on((event) => {
+      switch (event.type) {
+        case 'statechange':
+          setState(event.state);
+          if (event.state === 'listening') {
+            setError(null);
+          }
+          break;
+        case 'connected':
+          setIsConnected(true);
+          break;
+        case 'transcript':
+          setTranscript(event.text);
+          break;
+        case 'response':
+          setResponse(event.text);
+          break;
+        case 'interruption':
+          setLastInterruption(event.interruption);
+          break;
+        case 'error':
+          setError(event.error);
+          break;
+      }
+    });
+
+    engine.connect().catch(() => {
+      // Reported through the error event
+    });
+
+    return () => {
+      unsubscribe();
+      engine.dispose();
+      if (engineRef.current === engine) {
+        engineRef.current = null;
+      }
+      setState('idle');
+      setIsConnected(false);
+    };
+  }, [transports, vadSensitivity, continuous, bargeIn, minUtteranceMs, maxUtteranceMs]);
+
+  useEffect(() => {
+    outputMutedRef.current = outputMuted;
+    engineRef.current?.setOutputMuted(outputMuted);
+  }, [outputMuted]);
+
+  const startListening = useCallback(async () => {
+    if (!engineRef.current) {
+      setError('Session ID required');
+      return;
+    }
+    try {
+      await engineRef.current.start();
+    } catch {
+      setError('Failed to start listening. Please check microphone permissions.');
+    }
+  }, []);
+
+  const stopListening = useCallback(() => {
+    engineRef.current?.stop();
+  }, []);
+
+  const sendMessage = useCallback(async (message: string) => {
+    if (!engineRef.current) {
+      setError('Session ID required');
+      return;
+    }
+    await engineRef.current.sendMessage(message);
+  }, []);
+
+  const interrupt = useCallback(() => {
+    engineRef.current?.interrupt();
+  }, []);
+
+  const resetConversation = useCallback(() => {
+    engineRef.current?.reset();
+    setTranscript('');
+    setResponse('');
+  }, []);
+
+  return {
+    state,
+    isListening: state === 'listening',
+    isSpeaking: state === 'speaking',
+    isProcessing: state === 'transcribing' || state === 'thinking',
+    isConnected,
+    isSupported,
+    transcript,
+    response,
+    error,
+    lastInterruption,
+    startListening,
+    stopListening,
+    sendMessage,
+    interrupt,
+    resetConversation
+  };
+}
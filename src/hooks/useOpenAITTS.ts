@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { csrfHeaders } from '@/lib/sessionCredentials';
 
 interface UseOpenAITTSReturn {
   speak: (text: string) => void;
@@ -41,6 +42,7 @@ export const useOpenAITTS = (): UseOpenAITTSReturn => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...csrfHeaders(),
         },
         body: JSON.stringify({ text }),
       });
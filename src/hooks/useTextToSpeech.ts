@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { csrfHeaders } from '@/lib/sessionCredentials';
 
 interface UseTextToSpeechReturn {
   speak: (text: string) => void;
@@ -142,6 +143,7 @@ export const useTextToSpeech = (): UseTextToSpeechReturn => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...csrfHeaders(),
         },
         body: JSON.stringify({ text }),
       });
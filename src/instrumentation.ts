@@ -0,0 +1,18 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Fail fast on broken persona files instead of on the first chat request
+    const { PersonaRegistry } = await import('./lib/personaRegistry');
+    PersonaRegistry.getInstance();
+
+    // Render the canned phrases in the background; requests that arrive first render on demand
+    if (process.env.TTS_PRERENDER_PHRASES !== 'false') {
+      const { PhraseLibrary } = await import('./lib/phraseLibrary');
+      const { createLogger } = await import('./lib/logger');
+      const { trackJob } = await import('./lib/backgroundJobs');
+      trackJob('phrase-prerender', () => PhraseLibrary.getInstance().prerender()).catch((error) => {
+        createLogger('instrumentation').warn({ err: error }, 'Phrase prerendering failed');
+      });
+    }
+  }
+}
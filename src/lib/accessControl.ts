@@ -1,6 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SessionManager } from './sessionManager';
+import { AdminAuthService, type AdminIdentity } from './adminAuth';
 import { InputValidator } from './inputValidation';
+import { getClientIp } from './clientIdentity';
+import { RealtimeTokenService, RealtimeTokenError } from './realtimeTokens';
+import { SessionCookieService } from './sessionCookies';
+import { UsageMeter } from './usageMeter';
+import { ROUTE_POLICIES, type PolicyRoute, type RoutePolicy } from './routePolicies';
+import { createLogger, requestIdFor, runInRequestContext, REQUEST_ID_HEADER } from './logger';
+import { getMetricsRegistry, startTimer } from './metrics';
+
+const log = createLogger('accessControl');
+
+const metrics = getMetricsRegistry();
+const httpRequests = metrics.counter('samantha_http_requests_total', 'API requests handled, by route, method and status');
+const httpDuration = metrics.histogram('samantha_http_request_duration_seconds', 'Time to produce the API response (streams keep running after it)');
+const accessDenials = metrics.counter('samantha_access_denials_total', 'API requests refused by their route policy, by route and status');
 
 export interface AccessControlResult {
   hasAccess: boolean;
@@ -27,7 +42,7 @@ export class AccessControl {
   static async validateAccess(req: NextRequest): Promise<AccessControlResult> {
     try {
       // Get session ID from headers or body
-      const sessionId = this.extractSessionId(req);
+      const sessionId = await this.extractSessionId(req);
       
       if (!sessionId) {
         return {
@@ -47,9 +62,7 @@ export class AccessControl {
 
       // Get client information for validation
       const userAgent = req.headers.get('user-agent') || 'unknown';
-      const clientIp = req.headers.get('x-forwarded-for') || 
-                      req.headers.get('x-real-ip') || 
-                      'unknown';
+      const clientIp = getClientIp(req);
 
       // Check session access
       const accessResult = await this.sessionManager.checkAccess(
@@ -68,7 +81,7 @@ export class AccessControl {
       };
 
     } catch (error) {
-      console.error('Access control validation error:', error);
+      log.error({ err: error }, 'Access control validation error');
       return {
         hasAccess: false,
         reason: 'Access validation failed'
@@ -77,23 +90,64 @@ export class AccessControl {
   }
 
   /**
-   * Extract session ID from request
+   * Only let a session read or change its own data (e.g. /api/session/:id/history).
+   * The caller's session cookie must be for the same session, from the network
+   * the session was created on. Returns an error
+   * response, or null when the caller owns the session.
    */
-  private static extractSessionId(req: NextRequest): string | null {
-    // Try to get from Authorization header first
-    const authHeader = req.headers.get('authorization');
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      return authHeader.substring(7);
+  static async requireSessionOwner(req: NextRequest, sessionId: string): Promise<NextResponse | null> {
+    const callerSessionId = await this.extractSessionId(req);
+    if (!callerSessionId) {
+      return this.createSessionRequiredResponse();
     }
 
-    // Try to get from X-Session-ID header
-    const sessionHeader = req.headers.get('x-session-id');
-    if (sessionHeader) {
-      return sessionHeader;
+    const sessionValidation = InputValidator.validateSessionId(sessionId);
+    if (!sessionValidation.isValid || callerSessionId !== sessionId) {
+      return this.createAccessDeniedResponse('Session does not belong to the caller');
+    }
+
+    const userAgent = req.headers.get('user-agent') || 'unknown';
+    const clientIp = getClientIp(req);
+
+    const isValid = await this.sessionManager.validateSession(sessionId, userAgent, clientIp);
+    if (!isValid) {
+      return this.createAccessDeniedResponse('Invalid or expired session');
     }
 
-    // For POST requests, we'll let the route handlers extract session ID from body
-    // This is more reliable than trying to read the body here
+    return null;
+  }
+
+  /**
+   * Session ID from the request's signed session cookie, or null when the
+   * cookie is missing, forged or has been rotated out.
+   */
+  static async extractSessionId(req: NextRequest): Promise<string | null> {
+    const cookie = SessionCookieService.getInstance().read(req);
+    if (!cookie) return null;
+
+    const isCurrent = await this.sessionManager.hasCredential(cookie.sessionId, cookie.credentialId);
+    return isCurrent ? cookie.sessionId : null;
+  }
+
+  /**
+   * Reject state-changing requests whose CSRF header does not match the
+   * session cookie. Returns an error response, or null when the request is safe.
+   */
+  static requireCsrfToken(req: NextRequest): NextResponse | null {
+    if (['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+      return null;
+    }
+
+    const cookies = SessionCookieService.getInstance();
+    const cookie = cookies.read(req);
+    if (cookie && !cookies.verifyCsrf(req, cookie)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid CSRF token'
+      }, { status: 403 });
+    }
+
+    // Without a valid cookie the request is rejected by the session check instead
     return null;
   }
 
@@ -121,7 +175,7 @@ export class AccessControl {
   }
 
   /**
-   * Log access attempt for security monitoring
+   * Log access attempt for security monitoring (the logger masks the session ID and IP)
    */
   static logAccessAttempt(
     sessionId: string, 
@@ -130,20 +184,12 @@ export class AccessControl {
     endpoint: string,
     clientIp: string
   ): void {
-    const timestamp = new Date().toISOString();
-    const logEntry = {
-      timestamp,
-      sessionId: sessionId.substring(0, 8) + '...', // Partial for security
-      hasAccess,
-      reason,
-      endpoint,
-      clientIp: clientIp.substring(0, 15) + '...' // Partial for security
-    };
+    const entry = { sessionId, hasAccess, reason, endpoint, clientIp };
 
     if (hasAccess) {
-      console.log(`✅ Access granted: ${JSON.stringify(logEntry)}`);
+      log.info(entry, 'Access granted');
     } else {
-      console.log(`❌ Access denied: ${JSON.stringify(logEntry)}`);
+      log.warn(entry, 'Access denied');
     }
   }
 
@@ -162,7 +208,7 @@ export class AccessControl {
       
       return 0;
     } catch (error) {
-      console.error('Error getting remaining trial time:', error);
+      log.error({ err: error }, 'Error getting remaining trial time');
       return 0;
     }
   }
@@ -175,7 +221,7 @@ export class AccessControl {
       const accessResult = await this.sessionManager.checkAccess(sessionId);
       return accessResult.reason === 'Trial access active';
     } catch (error) {
-      console.error('Error checking trial period:', error);
+      log.error({ err: error }, 'Error checking trial period');
       return false;
     }
   }
@@ -188,7 +234,7 @@ export class AccessControl {
       const accessResult = await this.sessionManager.checkAccess(sessionId);
       return accessResult.reason === 'Paid access active';
     } catch (error) {
-      console.error('Error checking paid access:', error);
+      log.error({ err: error }, 'Error checking paid access');
       return false;
     }
   }
@@ -200,106 +246,154 @@ export class AccessControl {
 export function requireAccess(handler: (req: NextRequest, accessResult: AccessControlResult) => Promise<NextResponse>) {
   return async (req: NextRequest): Promise<NextResponse> => {
     try {
-      // For POST requests, we need to extract session ID from body first
-      let sessionId: string | null = null;
-      
-      if (req.method === 'POST') {
-        try {
-          // Clone request to read body
-          const clonedReq = req.clone();
-          
-          // Check content type to determine how to parse the body
-          const contentType = req.headers.get('content-type') || '';
-          
-          if (contentType.includes('application/json')) {
-            // Handle JSON requests
-            const body = await clonedReq.json();
-            sessionId = body.sessionId || null;
-          } else if (contentType.includes('multipart/form-data')) {
-            // Handle FormData requests (like transcribe endpoint)
-            const formData = await clonedReq.formData();
-            sessionId = formData.get('sessionId') as string || null;
-          } else {
-            // Try JSON as fallback, but don't log error for non-JSON content
-            try {
-              const body = await clonedReq.json();
-              sessionId = body.sessionId || null;
-            } catch (jsonError) {
-              // Silently ignore JSON parsing errors for non-JSON content
-            }
-          }
-        } catch (error) {
-          console.error('Error reading request body for session ID:', error);
-        }
-      }
+      const accessResult = await AccessControl.validateAccess(req);
 
-      // If we have session ID from body, validate it directly
-      if (sessionId) {
-        const userAgent = req.headers.get('user-agent') || 'unknown';
-        const clientIp = req.headers.get('x-forwarded-for') || 
-                        req.headers.get('x-real-ip') || 
-                        'unknown';
-
-        const accessResult = await AccessControl.getSessionManager().checkAccess(
-          sessionId, 
-          userAgent, 
-          clientIp
-        );
-
-        // Log access attempt
-        AccessControl.logAccessAttempt(
-          sessionId,
-          accessResult.hasAccess,
-          accessResult.reason,
-          req.nextUrl.pathname,
-          clientIp
-        );
-
-        // Check if access is granted
-        if (!accessResult.hasAccess) {
-          return AccessControl.createAccessDeniedResponse(accessResult.reason);
-        }
-
-        // Call the original handler with access result
-        return await handler(req, {
-          hasAccess: accessResult.hasAccess,
-          reason: accessResult.reason,
-          sessionId,
-          user: accessResult.user,
-          trialExpiresAt: accessResult.trialExpiresAt,
-          accessExpiresAt: accessResult.accessExpiresAt
-        });
-      } else {
-        // Fallback to header-based validation
-        const accessResult = await AccessControl.validateAccess(req);
-        
-        // Log access attempt
-        const clientIp = req.headers.get('x-forwarded-for') || 
-                        req.headers.get('x-real-ip') || 
-                        'unknown';
-        AccessControl.logAccessAttempt(
-          accessResult.sessionId || 'unknown',
-          accessResult.hasAccess,
-          accessResult.reason,
-          req.nextUrl.pathname,
-          clientIp
-        );
-
-        // Check if access is granted
-        if (!accessResult.hasAccess) {
-          return AccessControl.createAccessDeniedResponse(accessResult.reason);
-        }
+      // Log access attempt
+      AccessControl.logAccessAttempt(
+        accessResult.sessionId || 'unknown',
+        accessResult.hasAccess,
+        accessResult.reason,
+        req.nextUrl.pathname,
+        getClientIp(req)
+      );
 
-        // Call the original handler with access result
-        return await handler(req, accessResult);
+      // Check if access is granted
+      if (!accessResult.hasAccess) {
+        return AccessControl.createAccessDeniedResponse(accessResult.reason);
       }
 
+      // Call the original handler with access result
+      return await handler(req, accessResult);
+
     } catch (error) {
-      console.error('Access control middleware error:', error);
+      log.error({ err: error }, 'Access control middleware error');
       return NextResponse.json({
         success: false,
         error: 'Internal server error during access validation'
       }, { status: 500 });
     }
   };
-} 
\ No newline at end of file
+}
+
+export interface RouteHandlerContext<P> {
+  params: P;
+  access: AccessControlResult; // The caller's session, for session, owner and relay-token routes
+  admin?: AdminIdentity; // The signed-in admin, for admin routes
+}
+
+type RouteParams = Record<string, string>;
+
+/**
+ * Enforce a route's policy from routePolicies.ts before calling its handler.
+ * Every exported handler under src/app/api goes through this, e.g.
+ *   export const POST = withRoutePolicy('/api/chat', async (req, { access }) => ...)
+ */
+export function withRoutePolicy<P extends RouteParams = RouteParams>(
+  route: PolicyRoute,
+  handler: (req: NextRequest, context: RouteHandlerContext<P>) => Promise<NextResponse>
+) {
+  const policy: RoutePolicy = ROUTE_POLICIES[route];
+
+  // Calls run (the handler) only if the request passes the policy
+  const enforcePolicy = async (req: NextRequest, params: P, run: typeof handler): Promise<NextResponse> => {
+    switch (policy.access) {
+      case 'public':
+        return run(req, { params, access: { hasAccess: true, reason: 'Public route' } });
+
+      case 'development':
+        if (process.env.NODE_ENV === 'production') {
+          return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 });
+        }
+        return run(req, { params, access: { hasAccess: true, reason: 'Development route' } });
+
+      case 'owner': {
+        const denied = AccessControl.requireCsrfToken(req) || await AccessControl.requireSessionOwner(req, params.id);
+        if (denied) return denied;
+        return run(req, { params, access: { hasAccess: true, reason: 'Session owner', sessionId: params.id } });
+      }
+
+      case 'relay-token': {
+        const authHeader = req.headers.get('authorization') || '';
+        const token = authHeader.startsWith('Bearer ') ? authHeader.substring(7) : '';
+        const userAgent = req.headers.get('user-agent') || 'unknown';
+        const clientIp = getClientIp(req);
+
+        try {
+          const claims = await RealtimeTokenService.getInstance().authorize(token, 'realtime.relay', userAgent, clientIp);
+          return await run(req, { params, access: { hasAccess: true, reason: 'Relay token', sessionId: claims.sid } });
+        } catch (error) {
+          if (error instanceof RealtimeTokenError) {
+            return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+          }
+          throw error;
+        }
+      }
+
+      case 'admin': {
+        const adminAuth = AdminAuthService.getInstance();
+        const admin = await adminAuth.authenticate(req);
+        if (!admin) {
+          return NextResponse.json({ success: false, error: 'Admin authentication required' }, { status: 401 });
+        }
+        if (!adminAuth.verifyCsrf(req, admin)) {
+          return NextResponse.json({ success: false, error: 'Invalid CSRF token' }, { status: 403 });
+        }
+        return run(req, { params, access: { hasAccess: true, reason: 'Admin' }, admin });
+      }
+
+      case 'session': {
+        const denied = AccessControl.requireCsrfToken(req);
+        if (denied) return denied;
+        return requireAccess((sessionReq, access) => run(sessionReq, { params, access }))(req);
+      }
+    }
+  };
+
+  // Routes that debit the daily allowance only run while some of it is left
+  const requireQuota = async (sessionId: string | undefined): Promise<NextResponse | null> => {
+    if (policy.quota.length === 0) return null;
+    if (!sessionId) return AccessControl.createSessionRequiredResponse();
+
+    const remainingSeconds = await UsageMeter.getInstance().getRemainingSeconds(sessionId);
+    return remainingSeconds > 0
+      ? null
+      : AccessControl.createAccessDeniedResponse('Daily limit reached. Please try again tomorrow.');
+  };
+
+  // Every log line written while handling the request carries its ID, which
+  // is also returned to the caller in X-Request-Id
+  return async (req: NextRequest, context: { params: Promise<P> }): Promise<NextResponse> => {
+    const requestId = requestIdFor(req);
+
+    return runInRequestContext({ requestId, route }, async () => {
+      const startedAt = startTimer();
+      const params = ((await context?.params) || {}) as P;
+
+      let handled = false;
+      const response = await enforcePolicy(req, params, async (handlerReq, handlerContext) => {
+        const { sessionId } = handlerContext.access;
+        const overQuota = await requireQuota(sessionId);
+        if (overQuota) return overQuota;
+
+        handled = true;
+        return runInRequestContext({ requestId, route, sessionId }, () => handler(handlerReq, handlerContext));
+      });
+
+      const status = response.status.toString();
+      if (!handled) {
+        accessDenials.inc({ route, status });
+      }
+      httpRequests.inc({ route, method: req.method, status });
+      httpDuration.observeSince({ route, method: req.method }, startedAt);
+
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+      log.info({
+        method: req.method,
+        route,
+        status: response.status,
+        durationMs: Math.round(performance.now() - startedAt)
+      }, 'Request handled');
+      return response;
+    });
+  };
+}
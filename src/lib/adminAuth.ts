@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { InputValidator } from './inputValidation';
+import { getStorageAdapter, StorageAdapter } from './storageAdapter';
+import { createLogger } from './logger';
+
+const log = createLogger('adminAuth');
+
+// Authentication for the admin API and the /admin pages.
+//
+// Environment variables (the admin area is disabled when none are set):
+//   ADMIN_USERNAME, ADMIN_PASSWORD - credentials for signing in at /admin
+//   ADMIN_TOKEN                    - 64 hex characters; scripts send it as
+//                                    "Authorization: Bearer <token>"
+//   ADMIN_COOKIE_SECRET            - signing key for admin cookies; must be
+//                                    shared by all instances (random per
+//                                    process when unset)
+//
+// Signing in sets a signed, HttpOnly admin cookie that lasts an hour. Each
+// cookie names a server-side admin session, which signing out deletes, so a
+// copied cookie stops working too. Cookie requests that change anything must
+// also send the CSRF token returned by /api/admin/auth in the X-CSRF-Token
+// header; bearer requests need not, since browsers never attach the token on
+// their own.
+
+export const ADMIN_COOKIE_NAME = 'samantha_admin';
+
+export interface AdminIdentity {
+  actor: string; // Username, or "token" for ADMIN_TOKEN requests
+  method: 'cookie' | 'token';
+  csrfToken?: string; // For cookie sessions
+}
+
+export interface AdminCookie {
+  value: string;
+  csrfToken: string;
+}
+
+interface AdminCookieClaims {
+  sub: string; // Actor
+  exp: number; // Expires at (epoch seconds)
+  jti: string; // Server-side admin session ID
+}
+
+export class AdminAuthService {
+  private static instance: AdminAuthService;
+  private username: string | undefined;
+  private password: string | undefined;
+  private token: string | undefined;
+  private secret: Buffer;
+  private storage: StorageAdapter;
+  private readonly COOKIE_TTL_SECONDS = 60 * 60;
+
+  private constructor() {
+    this.username = process.env.ADMIN_USERNAME || undefined;
+    this.password = process.env.ADMIN_PASSWORD || undefined;
+    this.token = process.env.ADMIN_TOKEN || undefined;
+
+    if (this.username && this.password) {
+      const validation = InputValidator.validateAdminCredentials(this.username, this.password);
+      if (!validation.isValid) {
+        log.warn({ reason: validation.error }, 'ADMIN_USERNAME/ADMIN_PASSWORD ignored');
+        this.username = undefined;
+        this.password = undefined;
+      }
+    }
+    if (this.token && !InputValidator.validateToken(this.token).isValid) {
+      log.warn('ADMIN_TOKEN ignored: it must be 64 hex characters');
+      this.token = undefined;
+    }
+
+    const configuredSecret = process.env.ADMIN_COOKIE_SECRET;
+    if (configuredSecret) {
+      this.secret = Buffer.from(configuredSecret, 'utf8');
+    } else {
+      // Admins are signed out on restart and cookies do not verify on other instances
+      if (this.isConfigured()) {
+        log.warn('ADMIN_COOKIE_SECRET not set - using a per-process secret');
+      }
+      this.secret = crypto.randomBytes(32);
+    }
+    this.storage = getStorageAdapter();
+  }
+
+  public static getInstance(): AdminAuthService {
+    if (!AdminAuthService.instance) {
+      AdminAuthService.instance = new AdminAuthService();
+    }
+    return AdminAuthService.instance;
+  }
+
+  isConfigured(): boolean {
+    return this.hasCredentials() || !!this.token;
+  }
+
+  hasCredentials(): boolean {
+    return !!this.username && !!this.password;
+  }
+
+  // Check a username/password pair (both compared in constant time)
+  verifyCredentials(username: string, password: string): boolean {
+    if (!this.username || !this.password) return false;
+    if (!InputValidator.validateAdminCredentials(username, password).isValid) return false;
+
+    const usernameMatches = this.safeEqual(this.digest(username), this.digest(this.username));
+    const passwordMatches = this.safeEqual(this.digest(password), this.digest(this.password));
+    return usernameMatches && passwordMatches;
+  }
+
+  verifyToken(token: string): boolean {
+    if (!this.token || !InputValidator.validateToken(token).isValid) return false;
+    return this.safeEqual(this.digest(token.toLowerCase()), this.digest(this.token.toLowerCase()));
+  }
+
+  // The admin making this request, from the bearer token or the admin cookie
+  async authenticate(req: NextRequest): Promise<AdminIdentity | null> {
+    if (!this.isConfigured()) return null;
+
+    const authHeader = req.headers.get('authorization');
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      return this.verifyToken(authHeader.substring(7)) ? { actor: 'token', method: 'token' } : null;
+    }
+
+    const cookie = this.readCookie(req);
+    if (!cookie) return null;
+
+    // The cookie must still name a live admin session (signing out deletes it)
+    const session = await this.storage.getAdminSession(cookie.claims.jti);
+    if (!session || session.actor !== cookie.claims.sub || session.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    return { actor: cookie.claims.sub, method: 'cookie', csrfToken: this.hmac(`admin-csrf:${cookie.payload}`) };
+  }
+
+  // Cookie sessions must echo their CSRF token on state-changing requests
+  verifyCsrf(req: NextRequest, identity: AdminIdentity): boolean {
+    if (identity.method === 'token' || ['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+      return true;
+    }
+    const provided = req.headers.get('x-csrf-token');
+    return !!provided && !!identity.csrfToken && this.safeEqual(Buffer.from(provided), Buffer.from(identity.csrfToken));
+  }
+
+  // New admin cookie (and server-side session) for a signed-in admin, with its CSRF token
+  async createCookie(actor: string): Promise<AdminCookie> {
+    const claims: AdminCookieClaims = {
+      sub: actor,
+      exp: Math.floor(Date.now() / 1000) + this.COOKIE_TTL_SECONDS,
+      jti: crypto.randomBytes(16).toString('hex')
+    };
+    await this.storage.saveAdminSession({ id: claims.jti, actor, expiresAt: new Date(claims.exp * 1000) });
+
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return {
+      value: `${payload}.${this.hmac(`admin:${payload}`)}`,
+      csrfToken: this.hmac(`admin-csrf:${payload}`)
+    };
+  }
+
+  attachCookie(response: NextResponse, cookie: AdminCookie): void {
+    response.cookies.set(ADMIN_COOKIE_NAME, cookie.value, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: this.COOKIE_TTL_SECONDS
+    });
+  }
+
+  // Sign out: end the cookie's admin session and drop the cookie
+  async signOut(req: NextRequest, response: NextResponse): Promise<void> {
+    const cookie = this.readCookie(req);
+    if (cookie) {
+      await this.storage.deleteAdminSession(cookie.claims.jti);
+    }
+    response.cookies.delete(ADMIN_COOKIE_NAME);
+  }
+
+  // Verified, unexpired claims of the request's admin cookie, or null
+  private readCookie(req: NextRequest): { payload: string; claims: AdminCookieClaims } | null {
+    const value = req.cookies.get(ADMIN_COOKIE_NAME)?.value;
+    if (!value) return null;
+
+    const [payload, signature] = value.split('.');
+    if (!payload || !signature || !this.safeEqual(Buffer.from(signature), Buffer.from(this.hmac(`admin:${payload}`)))) {
+      return null;
+    }
+
+    let claims: AdminCookieClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+    if (typeof claims.sub !== 'string' || typeof claims.jti !== 'string' || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return { payload, claims };
+  }
+
+  private hmac(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  // Fixed-length digests so comparisons do not leak the secret's length
+  private digest(value: string): Buffer {
+    return crypto.createHash('sha256').update(value, 'utf8').digest();
+  }
+
+  private safeEqual(a: Buffer, b: Buffer): boolean {
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,92 @@
+import type { DailyUsage, AuditRecord, SpendKind } from './database';
+import type { BudgetStatus } from './costAccounting';
+
+// Browser helpers for the /admin pages. Holds the admin CSRF token (returned
+// by /api/admin/auth) and sends it with every state-changing request.
+
+export interface AdminStatus {
+  configured: boolean;
+  credentialsEnabled: boolean;
+  authenticated: boolean;
+  actor?: string;
+}
+
+export interface AdminSessionSummary {
+  sessionId: string;
+  createdAt: string;
+  lastActivity: string;
+  expiresAt: string;
+  userAgent: string;
+  ipAddress: string;
+  personaId?: string;
+  usage: DailyUsage | null;
+}
+
+export interface AdminStats {
+  totalUsers: number;
+  activeUsers: number;
+  totalDailyUsage: number;
+  averageUsagePerUser: number;
+}
+
+export interface AdminSessionDetail {
+  session: Omit<AdminSessionSummary, 'usage'> | null;
+  user: { createdAt: string; trialExpiresAt: string } | null;
+  usage: DailyUsage | null;
+  costs: {
+    state: BudgetStatus['state'];
+    spentUsd: number;
+    budgetUsd: number | null;
+    byKind: Partial<Record<SpendKind, number>>;
+  };
+  storedTurns: number;
+  rememberedFacts: number;
+}
+
+// Dates arrive as ISO strings
+export type AdminAuditRecord = Omit<AuditRecord, 'createdAt'> & { createdAt: string };
+
+let csrfToken: string | null = null;
+
+export async function getAdminStatus(): Promise<AdminStatus> {
+  const data = await adminRequest<AdminStatus & { csrfToken?: string }>('/api/admin/auth');
+  csrfToken = data.csrfToken || null;
+  return data;
+}
+
+export async function signIn(credentials: { username: string; password: string } | { token: string }): Promise<void> {
+  const data = await adminRequest<{ csrfToken: string }>('/api/admin/auth', { method: 'POST', body: credentials });
+  csrfToken = data.csrfToken;
+}
+
+export async function signOut(): Promise<void> {
+  await adminRequest('/api/admin/auth', { method: 'DELETE' });
+  csrfToken = null;
+}
+
+// Call an admin route; throws with the server's error message on failure
+export async function adminRequest<T = Record<string, unknown>>(
+  path: string,
+  options: { method?: 'GET' | 'POST' | 'DELETE'; body?: unknown } = {}
+): Promise<T> {
+  const method = options.method || 'GET';
+  const headers: Record<string, string> = {};
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  if (method !== 'GET' && csrfToken) {
+    headers['X-CSRF-Token'] = csrfToken;
+  }
+
+  const response = await fetch(path, {
+    method,
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
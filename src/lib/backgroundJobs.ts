@@ -0,0 +1,57 @@
+// Outcome of the work the server does outside requests (startup phrase
+// rendering, periodic cleanup, memory updates), reported by /api/ready.
+//
+// Wrap each run: trackJob('session-cleanup', () => this.cleanupExpiredSessions())
+// The status of the latest run is kept; errors are rethrown to the caller.
+
+export type BackgroundJobState = 'running' | 'succeeded' | 'failed';
+
+export interface BackgroundJobStatus {
+  name: string;
+  state: BackgroundJobState;
+  runs: number;
+  failures: number;
+  lastStartedAt: Date;
+  lastFinishedAt: Date | null;
+  lastError: string | null;
+}
+
+// Process-wide: every route bundle runs these jobs against the same state
+declare global {
+  var backgroundJobs: Map<string, BackgroundJobStatus> | undefined;
+}
+
+if (typeof window === 'undefined' && !global.backgroundJobs) {
+  global.backgroundJobs = new Map();
+}
+
+export async function trackJob<T>(name: string, run: () => Promise<T>): Promise<T> {
+  const previous = global.backgroundJobs!.get(name);
+  const status: BackgroundJobStatus = {
+    name,
+    state: 'running',
+    runs: (previous?.runs || 0) + 1,
+    failures: previous?.failures || 0,
+    lastStartedAt: new Date(),
+    lastFinishedAt: null,
+    lastError: null
+  };
+  global.backgroundJobs!.set(name, status);
+
+  try {
+    const result = await run();
+    status.state = 'succeeded';
+    return result;
+  } catch (error) {
+    status.state = 'failed';
+    status.failures++;
+    status.lastError = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    status.lastFinishedAt = new Date();
+  }
+}
+
+export function listJobs(): BackgroundJobStatus[] {
+  return Array.from(global.backgroundJobs!.values()).map(status => ({ ...status }));
+}
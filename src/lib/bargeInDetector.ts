@@ -0,0 +1,116 @@
+// Detects the user starting to talk while Samantha is speaking ("barge-in").
+//
+// Listens to an echo-cancelled microphone stream through an AnalyserNode and
+// keeps an adaptive noise floor: quiet frames slowly pull the floor towards
+// the current level, and speech is only reported once the level has stayed
+// well above that floor for a short while. Residual echo of the reply itself
+// is part of the floor, so it does not trigger an interruption.
+
+export interface BargeInDetectorOptions {
+  thresholdRatio?: number; // How far above the noise floor counts as speech
+  minLevel?: number; // Absolute RMS level speech must exceed (0-1)
+  minSpeechMs?: number; // Sustained speech needed before firing
+  calibrationMs?: number; // Initial period used only to learn the floor
+  checkIntervalMs?: number;
+}
+
+export interface BargeInEvent {
+  level: number;
+  noiseFloor: number;
+  speechMs: number;
+}
+
+const DEFAULT_OPTIONS: Required<BargeInDetectorOptions> = {
+  thresholdRatio: 3,
+  minLevel: 0.02,
+  minSpeechMs: 250,
+  calibrationMs: 300,
+  checkIntervalMs: 30
+};
+
+const FLOOR_ADAPT_RATE = 0.05; // Weight of each quiet frame in the noise floor
+
+export class BargeInDetector {
+  private options: Required<BargeInDetectorOptions>;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private noiseFloor = 0;
+  private speechMs = 0;
+  private startedAt = 0;
+  private onBargeIn: ((event: BargeInEvent) => void) | null = null;
+
+  constructor(options: BargeInDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  // Start monitoring; the callback fires at most once per start()
+  start(stream: MediaStream, audioContext: AudioContext, onBargeIn: (event: BargeInEvent) => void): void {
+    this.stop();
+
+    this.source = audioContext.createMediaStreamSource(stream);
+    this.analyser = audioContext.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.analyser.smoothingTimeConstant = 0;
+    this.source.connect(this.analyser); // Not connected to the destination, so the mic is never played back
+
+    this.samples = new Float32Array(this.analyser.fftSize);
+    this.noiseFloor = 0;
+    this.speechMs = 0;
+    this.startedAt = Date.now();
+    this.onBargeIn = onBargeIn;
+
+    this.timer = setInterval(() => this.check(), this.options.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser = null;
+    this.samples = null;
+    this.onBargeIn = null;
+  }
+
+  private check(): void {
+    if (!this.analyser || !this.samples) return;
+
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sum = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sum += this.samples[i] * this.samples[i];
+    }
+    const level = Math.sqrt(sum / this.samples.length);
+
+    // Learn the floor (room noise plus whatever echo survives cancellation)
+    if (Date.now() - this.startedAt < this.options.calibrationMs) {
+      this.noiseFloor = this.noiseFloor === 0 ? level : Math.max(this.noiseFloor, level);
+      return;
+    }
+
+    const threshold = Math.max(this.options.minLevel, this.noiseFloor * this.options.thresholdRatio);
+
+    if (level > threshold) {
+      this.speechMs += this.options.checkIntervalMs;
+      if (this.speechMs >= this.options.minSpeechMs) {
+        const callback = this.onBargeIn;
+        const event = { level, noiseFloor: this.noiseFloor, speechMs: this.speechMs };
+        this.stop();
+        callback?.(event);
+      }
+      return;
+    }
+
+    // Short dips reset the run, quiet frames adapt the floor
+    this.speechMs = 0;
+    this.noiseFloor = this.noiseFloor * (1 - FLOOR_ADAPT_RATE) + level * FLOOR_ADAPT_RATE;
+  }
+}
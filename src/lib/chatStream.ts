@@ -0,0 +1,139 @@
+import { SentenceChunker } from './sentenceChunker';
+
+// Streaming chat responses as newline-delimited JSON (application/x-ndjson).
+//
+// Every line is one event: "token" for each model delta, "sentence" whenever
+// a sentence is complete (so TTS can start early), then a single "done" with
+// the full reply, or "error" if generation failed part-way.
+
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'sentence'; index: number; text: string }
+  | { type: 'done'; response: string; remainingSeconds?: number }
+  | { type: 'error'; error: string };
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export const CHAT_STREAM_HEADERS = {
+  'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+  'Cache-Control': 'no-cache, no-transform',
+  'X-Accel-Buffering': 'no' // Disable proxy buffering so events arrive immediately
+};
+
+interface ChatStreamOptions {
+  // Called with the full reply before the "done" event is sent, or with the
+  // part generated so far if the client cancels (e.g. the user barged in)
+  onComplete?: (response: string) => Promise<Partial<Extract<ChatStreamEvent, { type: 'done' }>> | void>;
+  // Called if generation fails part-way (this module is shared with the browser, so it does not log)
+  onError?: (error: unknown) => void;
+  // Aborted when the client cancels, to stop the model call (see LLMRequest.signal)
+  abortController?: AbortController;
+  fallbackResponse?: string;
+}
+
+// Server side: turn a stream of model deltas (see LLMProvider.stream) into an NDJSON byte stream
+export function createChatEventStream(
+  completion: AsyncIterable<string>,
+  options: ChatStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunker = new SentenceChunker();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The controller throws once the client has cancelled
+      const send = (event: ChatStreamEvent) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      let response = '';
+      let sentenceIndex = 0;
+
+      try {
+        try {
+          for await (const delta of completion) {
+            if (cancelled) break;
+            if (!delta) continue;
+
+            response += delta;
+            send({ type: 'token', text: delta });
+
+            for (const sentence of chunker.push(delta)) {
+              send({ type: 'sentence', index: sentenceIndex++, text: sentence });
+            }
+          }
+        } catch (error) {
+          // Aborting the model call makes the completion throw
+          if (!cancelled) throw error;
+        }
+
+        // Nobody is listening any more, but the exchange happened: keep what was generated
+        if (cancelled) {
+          await options.onComplete?.(response.replace(/\s+/g, ' ').trim());
+          return;
+        }
+
+        for (const sentence of chunker.flush()) {
+          send({ type: 'sentence', index: sentenceIndex++, text: sentence });
+        }
+
+        let cleanResponse = response.replace(/\s+/g, ' ').trim();
+        if (!cleanResponse && options.fallbackResponse) {
+          cleanResponse = options.fallbackResponse;
+          send({ type: 'sentence', index: sentenceIndex++, text: cleanResponse });
+        }
+
+        const extra = (await options.onComplete?.(cleanResponse)) || {};
+        send({ ...extra, type: 'done', response: cleanResponse });
+      } catch (error) {
+        options.onError?.(error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Stream failed' });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+
+    cancel() {
+      cancelled = true;
+      options.abortController?.abort();
+    }
+  });
+}
+
+// Client side: read an NDJSON chat stream and dispatch its events
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (line: string) => {
+    const trimmed = line.trim();
+    if (trimmed) {
+      onEvent(JSON.parse(trimmed) as ChatStreamEvent);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex;
+    while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+      dispatch(buffer.slice(0, newlineIndex));
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  dispatch(buffer + decoder.decode());
+}
@@ -0,0 +1,216 @@
+// Client IP resolution and session binding.
+//
+// Environment variables:
+//   TRUSTED_PROXY_HOPS   - number of reverse proxies in front of the app that
+//                          append to X-Forwarded-For (default 1, e.g. Railway's
+//                          edge). 0 ignores forwarding headers entirely.
+//   SESSION_IP_BINDING   - how strictly a session is tied to the address it was
+//                          created from: strict (same address), subnet (same
+//                          IPv4 /24 or IPv6 /48, the default) or none
+//
+// Entries left of the trusted hops in X-Forwarded-For are written by the
+// client and can be anything, so only the one added by the outermost trusted
+// proxy is used. Runs in the edge runtime too (middleware); no Node imports,
+// so server code gets the module logger from logger.ts (setClientIdentityLogger)
+// and middleware falls back to console.
+
+export const UNKNOWN_IP = 'unknown';
+
+export type SessionBindingPolicy = 'strict' | 'subnet' | 'none';
+
+const BINDING_POLICIES: SessionBindingPolicy[] = ['strict', 'subnet', 'none'];
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+const IPV4_SUBNET_BITS = 24;
+const IPV6_SUBNET_BITS = 48;
+
+type Warn = (fields: Record<string, unknown>, message: string) => void;
+
+let warn: Warn = (fields, message) => console.warn(`⚠️ ${message}`, fields);
+
+// Settings are read on every request, so each problem is only reported once
+let warnedTrustedProxyHops = false;
+let warnedSessionBinding = false;
+
+export function setClientIdentityLogger(logger: { warn: Warn }): void {
+  warn = (fields, message) => logger.warn(fields, message);
+}
+
+export function getTrustedProxyHops(): number {
+  const value = process.env.TRUSTED_PROXY_HOPS;
+  if (value === undefined || value === '') return DEFAULT_TRUSTED_PROXY_HOPS;
+
+  const hops = parseInt(value, 10);
+  if (isNaN(hops) || hops < 0) {
+    if (!warnedTrustedProxyHops) {
+      warnedTrustedProxyHops = true;
+      warn({ value, using: DEFAULT_TRUSTED_PROXY_HOPS }, 'Invalid TRUSTED_PROXY_HOPS');
+    }
+    return DEFAULT_TRUSTED_PROXY_HOPS;
+  }
+  return hops;
+}
+
+export function getSessionBindingPolicy(): SessionBindingPolicy {
+  const policy = (process.env.SESSION_IP_BINDING || 'subnet').toLowerCase() as SessionBindingPolicy;
+  if (!BINDING_POLICIES.includes(policy)) {
+    if (!warnedSessionBinding) {
+      warnedSessionBinding = true;
+      warn({ value: process.env.SESSION_IP_BINDING, using: 'subnet' }, 'Unknown SESSION_IP_BINDING');
+    }
+    return 'subnet';
+  }
+  return policy;
+}
+
+/**
+ * The caller's normalized IP address, or UNKNOWN_IP when it cannot be
+ * determined (no trusted proxy, or a malformed header).
+ */
+export function getClientIp(req: { headers: Headers }, trustedHops: number = getTrustedProxyHops()): string {
+  if (trustedHops === 0) return UNKNOWN_IP;
+
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(entry => entry.trim()).filter(Boolean);
+    if (hops.length > 0) {
+      // The last trustedHops entries were appended by our proxies; the
+      // outermost one recorded the address that connected to it
+      const index = Math.max(0, hops.length - trustedHops);
+      return normalizeIp(hops[index]) || UNKNOWN_IP;
+    }
+  }
+
+  const realIp = req.headers.get('x-real-ip');
+  return (realIp && normalizeIp(realIp)) || UNKNOWN_IP;
+}
+
+/**
+ * Canonical form of an IPv4 or IPv6 address: ports and brackets stripped,
+ * IPv4-mapped IPv6 reduced to IPv4, IPv6 lowercased and compressed.
+ * Returns null if the value is not an IP address.
+ */
+export function normalizeIp(value: string): string | null {
+  let address = value.trim();
+
+  // [v6]:port or [v6]
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    // v4:port
+    address = address.substring(0, address.lastIndexOf(':'));
+  }
+
+  // Zone index (fe80::1%eth0) is local to the host
+  address = address.replace(/%.*$/, '');
+
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return ipv4.join('.');
+
+  const ipv6 = parseIPv6(address);
+  if (!ipv6) return null;
+
+  // ::ffff:a.b.c.d
+  if (ipv6.slice(0, 5).every(group => group === 0) && ipv6[5] === 0xffff) {
+    return [ipv6[6] >> 8, ipv6[6] & 0xff, ipv6[7] >> 8, ipv6[7] & 0xff].join('.');
+  }
+
+  return formatIPv6(ipv6);
+}
+
+/**
+ * Whether a request from `actual` may use a session created from `expected`
+ * under the given binding policy. Unknown addresses only match each other.
+ */
+export function ipMatchesBinding(
+  expected: string,
+  actual: string,
+  policy: SessionBindingPolicy = getSessionBindingPolicy()
+): boolean {
+  if (policy === 'none') return true;
+
+  const expectedIp = normalizeIp(expected);
+  const actualIp = normalizeIp(actual);
+  if (!expectedIp || !actualIp) {
+    return expected === actual;
+  }
+
+  if (policy === 'strict') {
+    return expectedIp === actualIp;
+  }
+
+  return subnetOf(expectedIp) === subnetOf(actualIp);
+}
+
+// Network prefix used by the subnet policy, e.g. "203.0.113.0/24"
+export function subnetOf(ip: string): string | null {
+  const ipv4 = parseIPv4(ip);
+  if (ipv4) {
+    const bytes = IPV4_SUBNET_BITS / 8;
+    return [...ipv4.slice(0, bytes), ...Array(4 - bytes).fill(0)].join('.') + `/${IPV4_SUBNET_BITS}`;
+  }
+
+  const ipv6 = parseIPv6(ip);
+  if (ipv6) {
+    const groups = IPV6_SUBNET_BITS / 16;
+    return formatIPv6([...ipv6.slice(0, groups), ...Array(8 - groups).fill(0)]) + `/${IPV6_SUBNET_BITS}`;
+  }
+
+  return null;
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  const octets = parts.map(part => (/^\d{1,3}$/.test(part) ? parseInt(part, 10) : NaN));
+  return octets.every(octet => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+// Eight 16-bit groups, or null
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(':')) return null;
+
+  // Trailing embedded IPv4 (::ffff:1.2.3.4) counts as two groups
+  let text = address.toLowerCase();
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIPv4(embedded[2]);
+    if (!ipv4) return null;
+    text = embedded[1] + ((ipv4[0] << 8) | ipv4[1]).toString(16) + ':' + ((ipv4[2] << 8) | ipv4[3]).toString(16);
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const parseGroups = (part: string) => (part === '' ? [] : part.split(':'));
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  return groups.map(group => parseInt(group, 16));
+}
+
+// RFC 5952: lowercase, no leading zeros, longest run of zero groups as "::"
+function formatIPv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === 0) length++;
+    if (length > bestLength && length > 1) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+
+  return hex.slice(0, bestStart).join(':') + '::' + hex.slice(bestStart + bestLength).join(':');
+}
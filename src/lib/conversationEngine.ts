@@ -0,0 +1,470 @@
+import { TTSPlaybackQueue, createAudioContext, type SynthesizeSegment } from './ttsPlaybackQueue';
+import { UtteranceRecorder, type Utterance } from './utteranceRecorder';
+import { BargeInDetector } from './bargeInDetector';
+import { isMeaningfulSpeech } from './speechFilter';
+import type { VadSensitivity } from './voiceActivityDetector';
+
+// Framework-agnostic voice conversation loop.
+//
+//   idle → listening → transcribing → thinking → speaking → listening …
+//
+// The engine owns the microphone, the VAD-driven utterance recorder, the TTS
+// playback queue and barge-in detection. Speech-to-text, the language model
+// and text-to-speech are plugged in as transports (see conversationTransports),
+// so every voice UI shares the same behavior and only differs in which
+// endpoints it talks to. UI code subscribes to typed events via on().
+
+export type ConversationState = 'idle' | 'listening' | 'transcribing' | 'thinking' | 'speaking';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface Interruption {
+  heardText: string;
+  fullText: string;
+  at: number; // Epoch ms
+}
+
+export interface SpeechToTextTransport {
+  transcribe(audio: Blob, filename: string): Promise<string>;
+}
+
+export interface ChatRequest {
+  message: string; // The server keeps the history; only the new message is sent
+  interruption?: { heardText: string };
+  signal: AbortSignal;
+  onSentence: (text: string) => void; // Call for each sentence as soon as it is complete
+}
+
+export interface ChatTransport {
+  reply(request: ChatRequest): Promise<string>; // Resolves with the full reply
+}
+
+export interface TextToSpeechTransport {
+  synthesize: SynthesizeSegment;
+}
+
+// Server-side conversation history for the session
+export interface HistoryTransport {
+  load(): Promise<ConversationTurn[]>;
+  clear(): Promise<void>;
+}
+
+export interface ConversationTransports {
+  connect?: () => Promise<void>;
+  history?: HistoryTransport;
+  stt: SpeechToTextTransport;
+  chat: ChatTransport;
+  tts: TextToSpeechTransport;
+}
+
+export type ConversationErrorStage = 'connection' | 'microphone' | 'transcription' | 'chat' | 'speech';
+
+export type ConversationEvent =
+  | { type: 'statechange'; state: ConversationState; previous: ConversationState }
+  | { type: 'connected' }
+  | { type: 'transcript'; text: string }
+  | { type: 'sentence'; text: string }
+  | { type: 'response'; text: string }
+  | { type: 'interruption'; interruption: Interruption }
+  | { type: 'error'; stage: ConversationErrorStage; error: string };
+
+export type ConversationListener = (event: ConversationEvent) => void;
+
+export interface ConversationEngineOptions {
+  transports: ConversationTransports;
+  vadSensitivity?: VadSensitivity;
+  continuous?: boolean; // Resume listening after each reply (default true)
+  bargeIn?: boolean; // Let the user interrupt replies by talking (default true)
+  minUtteranceMs?: number;
+  maxUtteranceMs?: number;
+}
+
+const MIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1
+};
+
+export class ConversationEngine {
+  private options: Required<Omit<ConversationEngineOptions, 'transports'>>;
+  private transports: ConversationTransports;
+  private listeners: ConversationListener[] = [];
+  private currentState: ConversationState = 'idle';
+  private history: ConversationTurn[] = [];
+  private lastTranscript = '';
+  private connected = false;
+  private active = false; // start() was called and stop() was not
+  private outputMuted = false;
+  private disposed = false;
+
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private recorder: UtteranceRecorder | null = null;
+  private bargeInDetector = new BargeInDetector();
+  private queue: TTSPlaybackQueue | null = null;
+  private chatAbort: AbortController | null = null;
+  private replyTurn: ConversationTurn | null = null; // Assistant turn currently being spoken
+  private pendingInterruption: Interruption | null = null;
+
+  constructor(options: ConversationEngineOptions) {
+    this.transports = options.transports;
+    this.options = {
+      vadSensitivity: options.vadSensitivity ?? 'medium',
+      continuous: options.continuous ?? true,
+      bargeIn: options.bargeIn ?? true,
+      minUtteranceMs: options.minUtteranceMs ?? 500,
+      maxUtteranceMs: options.maxUtteranceMs ?? 15000
+    };
+  }
+
+  get state(): ConversationState {
+    return this.currentState;
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  getHistory(): ConversationTurn[] {
+    return this.history.map(turn => ({ ...turn }));
+  }
+
+  // Subscribe to engine events (returns an unsubscribe function)
+  on(listener: ConversationListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  // Prepare the transports (e.g. fetch a relay token)
+  async connect(): Promise<void> {
+    if (this.connected) return;
+    try {
+      await this.transports.connect?.();
+      if (this.transports.history) {
+        // Pick the conversation up where it was left before a reload
+        this.history = await this.transports.history.load().catch((error) => {
+          console.warn('Could not restore conversation history:', error);
+          return this.history;
+        });
+      }
+      this.connected = true;
+      this.emit({ type: 'connected' });
+    } catch (error) {
+      this.emitError('connection', error);
+      throw error;
+    }
+  }
+
+  // Open the microphone and start listening for utterances
+  async start(): Promise<void> {
+    if (this.disposed) return;
+    this.active = true;
+
+    if (this.currentState !== 'idle') return;
+
+    try {
+      await this.openMicrophone();
+      this.setState('listening');
+    } catch (error) {
+      this.active = false;
+      this.emitError('microphone', error);
+      throw error;
+    }
+  }
+
+  // Stop listening; speech in progress is still sent, a reply in progress still finishes
+  stop(): void {
+    this.active = false;
+    this.recorder?.flush();
+    this.closeMicrophone();
+
+    if (this.currentState === 'listening') {
+      this.setState('idle');
+    }
+  }
+
+  // Send a typed message, interrupting the current reply if needed
+  async sendMessage(text: string): Promise<void> {
+    if (!text.trim() || this.disposed) return;
+    if (this.currentState === 'transcribing' || this.currentState === 'thinking') return;
+
+    if (this.currentState === 'speaking') {
+      this.interrupt();
+    }
+
+    this.recorder?.pause();
+    await this.respond(text.trim());
+  }
+
+  // Cut the current reply short; history keeps only what was actually heard
+  interrupt(): void {
+    const queue = this.queue;
+    if (!queue) return;
+
+    this.queue = null;
+    this.bargeInDetector.stop();
+    const heardText = queue.cancel();
+    this.chatAbort?.abort();
+    this.chatAbort = null;
+
+    const turn = this.replyTurn;
+    const fullText = turn?.content || '';
+    if (turn) {
+      if (heardText) {
+        turn.content = heardText;
+      } else {
+        this.history = this.history.filter(existing => existing !== turn);
+      }
+      this.replyTurn = null;
+    }
+
+    const interruption = { heardText, fullText, at: Date.now() };
+    this.pendingInterruption = interruption;
+    this.emit({ type: 'interruption', interruption });
+
+    // The user is talking - listen to them
+    this.resumeListening();
+  }
+
+  // Mute or unmute spoken replies (they are still generated and kept in history)
+  setOutputMuted(muted: boolean): void {
+    this.outputMuted = muted;
+  }
+
+  // Forget the conversation so far
+  reset(): void {
+    this.history = [];
+    this.lastTranscript = '';
+    this.pendingInterruption = null;
+    this.transports.history?.clear().catch((error) => {
+      this.emitError('connection', error);
+    });
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.stop();
+    this.queue?.cancel();
+    this.queue = null;
+    this.chatAbort?.abort();
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.disposed = true;
+    this.listeners = [];
+  }
+
+  private async openMicrophone(): Promise<void> {
+    if (this.stream && this.recorder) return;
+
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: MIC_CONSTRAINTS });
+    const audioContext = this.getAudioContext();
+
+    this.recorder = new UtteranceRecorder({
+      sensitivity: this.options.vadSensitivity,
+      maxUtteranceMs: this.options.maxUtteranceMs,
+      onUtterance: (utterance) => {
+        this.handleUtterance(utterance);
+      }
+    });
+    this.recorder.start(this.stream, audioContext);
+  }
+
+  private closeMicrophone(): void {
+    this.bargeInDetector.stop();
+    this.recorder?.stop();
+    this.recorder = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = createAudioContext();
+    }
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(() => {});
+    }
+    return this.audioContext;
+  }
+
+  private async handleUtterance({ audio, durationMs }: Utterance): Promise<void> {
+    if (this.currentState !== 'listening' || durationMs < this.options.minUtteranceMs) return;
+
+    this.recorder?.pause();
+    this.setState('transcribing');
+
+    let text: string;
+    try {
+      text = (await this.transports.stt.transcribe(audio, 'utterance.wav')).trim();
+    } catch (error) {
+      this.emitError('transcription', error);
+      this.finishTurn();
+      return;
+    }
+
+    if (this.disposed) return;
+
+    if (!isMeaningfulSpeech(text, this.lastTranscript)) {
+      this.finishTurn();
+      return;
+    }
+
+    await this.respond(text);
+  }
+
+  // One exchange: ask the model, speak the reply sentence by sentence as it streams in
+  private async respond(text: string): Promise<void> {
+    this.lastTranscript = text;
+    this.emit({ type: 'transcript', text });
+    this.setState('thinking');
+
+    const abort = new AbortController();
+    this.chatAbort = abort;
+
+    const interruption = this.pendingInterruption;
+    this.pendingInterruption = null;
+
+    this.history.push({ role: 'user', content: text });
+
+    const replyTurn: ConversationTurn = { role: 'assistant', content: '' };
+    this.history.push(replyTurn);
+    this.replyTurn = replyTurn;
+
+    let queue: TTSPlaybackQueue | null = null;
+
+    try {
+      const reply = await this.transports.chat.reply({
+        message: text,
+        interruption: interruption ? { heardText: interruption.heardText } : undefined,
+        signal: abort.signal,
+        onSentence: (sentence) => {
+          if (abort.signal.aborted) return;
+
+          replyTurn.content = replyTurn.content ? `${replyTurn.content} ${sentence}` : sentence;
+          this.emit({ type: 'sentence', text: sentence });
+
+          if (this.outputMuted) return;
+          if (!queue) {
+            queue = this.startPlayback();
+          }
+          queue.enqueue(sentence);
+        }
+      });
+
+      if (abort.signal.aborted || this.disposed) return;
+      this.chatAbort = null;
+
+      if (!replyTurn.content) {
+        replyTurn.content = reply;
+      }
+      this.emit({ type: 'response', text: reply || replyTurn.content });
+
+      if (queue) {
+        // Playback finishing moves the engine on (see startPlayback)
+        (queue as TTSPlaybackQueue).close();
+      } else {
+        this.replyTurn = null;
+        this.finishTurn();
+      }
+    } catch (error) {
+      if (abort.signal.aborted || this.disposed) return;
+      this.chatAbort = null;
+
+      // Keep whatever was already said, drop the turn if nothing was
+      if (!replyTurn.content) {
+        this.history = this.history.filter(existing => existing !== replyTurn);
+      }
+      this.emitError('chat', error);
+
+      if (queue) {
+        (queue as TTSPlaybackQueue).close();
+      } else {
+        this.replyTurn = null;
+        this.finishTurn();
+      }
+    }
+  }
+
+  private startPlayback(): TTSPlaybackQueue {
+    const audioContext = this.getAudioContext();
+    const queue = new TTSPlaybackQueue({
+      synthesize: this.transports.tts.synthesize,
+      audioContext
+    });
+
+    queue.on((event) => {
+      if (event.type === 'error') {
+        this.emit({ type: 'error', stage: 'speech', error: event.error });
+      }
+    });
+
+    queue.drained().then(() => {
+      if (this.queue !== queue) return; // Interrupted or disposed
+      this.queue = null;
+      this.replyTurn = null;
+      this.bargeInDetector.stop();
+      this.finishTurn();
+    });
+
+    this.queue = queue;
+    this.setState('speaking');
+
+    // Watch the (echo-cancelled) mic for the user talking over the reply
+    if (this.options.bargeIn && this.stream) {
+      this.bargeInDetector.start(this.stream, audioContext, () => {
+        if (this.queue === queue) {
+          this.interrupt();
+        }
+      });
+    }
+
+    return queue;
+  }
+
+  // The exchange is over: listen again, or go idle
+  private finishTurn(): void {
+    if (this.active && !this.options.continuous) {
+      this.active = false;
+      this.closeMicrophone();
+    }
+    this.resumeListening();
+  }
+
+  private resumeListening(): void {
+    if (this.active && this.recorder) {
+      this.recorder.resume();
+      this.setState('listening');
+    } else {
+      this.setState('idle');
+    }
+  }
+
+  private setState(state: ConversationState): void {
+    if (state === this.currentState) return;
+    const previous = this.currentState;
+    this.currentState = state;
+    this.emit({ type: 'statechange', state, previous });
+  }
+
+  private emitError(stage: ConversationErrorStage, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Conversation ${stage} error:`, message);
+    this.emit({ type: 'error', stage, error: message });
+  }
+
+  private emit(event: ConversationEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Conversation listener error:', error);
+      }
+    });
+  }
+}
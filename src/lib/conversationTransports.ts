@@ -0,0 +1,161 @@
+import { readChatStream } from './chatStream';
+import { splitSentences } from './sentenceChunker';
+import { csrfHeaders } from './sessionCredentials';
+import { createEndpointSynthesizer } from './ttsPlaybackQueue';
+import type { RealtimeRelayClient } from './realtimeRelayClient';
+import type { TTSDevice } from './ttsService';
+import type {
+  ChatTransport,
+  ConversationTransports,
+  HistoryTransport,
+  SpeechToTextTransport,
+  TextToSpeechTransport
+} from './conversationEngine';
+
+// Ready-made STT/LLM/TTS transports for the ConversationEngine.
+//
+// "http" talks to the app's own routes with the session cookie; "relay" goes
+// through /api/realtime/relay with short-lived tokens.
+
+export interface HttpTransportOptions {
+  sessionId: string; // For /api/session/<id>/... URLs; requests authenticate with the cookie
+  transcribeEndpoint?: string;
+  chatEndpoint?: string;
+  ttsEndpoint?: string;
+  ttsDevice?: TTSDevice; // Device profile for /api/tts (the server guesses when omitted)
+  chatBody?: Record<string, unknown>; // Extra fields for every chat request
+}
+
+export function createHttpTransports(options: HttpTransportOptions): ConversationTransports {
+  const {
+    sessionId,
+    transcribeEndpoint = '/api/transcribe',
+    chatEndpoint = '/api/chat-fast',
+    ttsEndpoint = '/api/tts',
+    ttsDevice,
+    chatBody = {}
+  } = options;
+
+  const stt: SpeechToTextTransport = {
+    async transcribe(audio, filename) {
+      const formData = new FormData();
+      formData.append('audio', audio, filename);
+
+      const response = await fetch(transcribeEndpoint, {
+        method: 'POST',
+        headers: csrfHeaders(),
+        body: formData
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Transcription failed');
+      }
+
+      const data = await response.json();
+      return data.text || '';
+    }
+  };
+
+  const chat: ChatTransport = {
+    async reply({ message, interruption, signal, onSentence }) {
+      const response = await fetch(chatEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        body: JSON.stringify({
+          ...chatBody,
+          message,
+          interruption,
+          stream: true
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.reason || errorData.error || 'Chat request failed');
+      }
+
+      // Routes without streaming support answer with plain JSON
+      if (!response.headers.get('Content-Type')?.includes('ndjson')) {
+        const data = await response.json();
+        const reply: string = data.response || '';
+        splitSentences(reply).forEach(onSentence);
+        return reply;
+      }
+
+      let reply = '';
+      let streamError: string | null = null;
+
+      await readChatStream(response, (event) => {
+        if (event.type === 'sentence') {
+          onSentence(event.text);
+        } else if (event.type === 'done') {
+          reply = event.response;
+        } else if (event.type === 'error') {
+          streamError = event.error;
+        }
+      });
+
+      if (streamError && !reply) {
+        throw new Error(streamError);
+      }
+      return reply;
+    }
+  };
+
+  const tts: TextToSpeechTransport = {
+    synthesize: createEndpointSynthesizer(ttsEndpoint, { device: ttsDevice })
+  };
+
+  return { stt, chat, tts, history: createSessionHistoryTransport(sessionId) };
+}
+
+// Conversation history stored by the server for this session
+export function createSessionHistoryTransport(sessionId: string): HistoryTransport {
+  const endpoint = `/api/session/${encodeURIComponent(sessionId)}/history`;
+  return {
+    async load() {
+      const response = await fetch(endpoint);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.reason || errorData.error || 'Failed to load conversation history');
+      }
+
+      const data = await response.json();
+      return (data.history || []).map((turn: { role: 'user' | 'assistant'; content: string }) => ({
+        role: turn.role,
+        content: turn.content
+      }));
+    },
+
+    async clear() {
+      const response = await fetch(endpoint, { method: 'DELETE', headers: csrfHeaders() });
+      if (!response.ok) {
+        throw new Error('Failed to clear conversation history');
+      }
+    }
+  };
+}
+
+export function createRelayTransports(client: RealtimeRelayClient): ConversationTransports {
+  return {
+    history: createSessionHistoryTransport(client.getSessionId()),
+    // Fetch the first token up front so connection problems surface early
+    async connect() {
+      await client.getToken();
+    },
+    stt: {
+      transcribe: (audio, filename) => client.transcribe(audio, filename)
+    },
+    chat: {
+      async reply({ message, interruption, onSentence }) {
+        const reply = await client.chat(message, interruption);
+        splitSentences(reply).forEach(onSentence);
+        return reply;
+      }
+    },
+    tts: {
+      synthesize: async (text) => (await client.speak(text)).arrayBuffer()
+    }
+  };
+}
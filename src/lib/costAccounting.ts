@@ -0,0 +1,219 @@
+import fs from 'fs';
+import { Database } from './database';
+import type { SpendKind } from './database';
+import { createLogger, getRequestRoute, getRequestSessionId } from './logger';
+import { getMetricsRegistry } from './metrics';
+
+const log = createLogger('costAccounting');
+
+const metrics = getMetricsRegistry();
+const costTotal = metrics.counter('samantha_cost_usd_total', 'Estimated provider spend in US dollars, by route, kind, provider and model');
+
+// What the model backends cost, and the budgets that cap it.
+//
+// Every transcription, chat completion and (uncached) synthesis is priced
+// from the table below and added to today's totals for its session. Spend is
+// bucketed by UTC day and kept across database resets.
+//
+// Budgets (US dollars, unset means unlimited):
+// - COST_DAILY_BUDGET_USD: everything spent today, across all sessions
+// - COST_SESSION_BUDGET_USD: what one session may spend today
+// Past COST_DEGRADE_AT of either budget (default 0.8) the chat routes switch
+// to a cheaper model (COST_DEGRADED_LLM_MODEL, default gpt-4o-mini on OpenAI).
+// Once a budget is spent, chat answers with the persona's "budget-reached"
+// line and transcription and uncached synthesis are refused.
+//
+// Prices are looked up as "<provider>/<model>", then "<model>". The defaults
+// only cover OpenAI; anything else (local servers, mock and test providers)
+// is free unless COST_PRICES_PATH names a JSON file of extra prices, e.g.
+//   { "openai/gpt-4o": { "inputPerMillionTokens": 2.5, "outputPerMillionTokens": 10 } }
+
+export interface ModelPrice {
+  inputPerMillionTokens?: number; // Chat prompt tokens
+  outputPerMillionTokens?: number; // Chat completion tokens
+  perMinute?: number; // Transcribed audio
+  perMillionCharacters?: number; // Synthesized text
+}
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'openai/whisper-1': { perMinute: 0.006 },
+  'openai/gpt-3.5-turbo': { inputPerMillionTokens: 0.5, outputPerMillionTokens: 1.5 },
+  'openai/gpt-4o-mini': { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 },
+  'openai/tts-1': { perMillionCharacters: 15 },
+  'openai/tts-1-hd': { perMillionCharacters: 30 }
+};
+
+export const DEFAULT_DEGRADED_LLM_MODEL = 'gpt-4o-mini';
+
+export type BudgetState = 'normal' | 'degraded' | 'exhausted';
+
+export interface BudgetStatus {
+  state: BudgetState;
+  dailySpendUsd: number;
+  dailyBudgetUsd: number | null;
+  sessionSpendUsd: number | null; // null without a session
+  sessionBudgetUsd: number | null;
+}
+
+// What a provider call is priced as
+export interface CostSource {
+  provider: string;
+  model: string;
+}
+
+export class BudgetExceededError extends Error {
+  readonly status = 503;
+
+  constructor(public readonly scope: 'daily' | 'session') {
+    super(scope === 'daily' ? 'Daily spending limit reached' : 'Session spending limit reached');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class CostAccountant {
+  private static instance: CostAccountant;
+  private database: Database;
+  private prices: Record<string, ModelPrice>;
+  private dailyBudgetUsd: number | null;
+  private sessionBudgetUsd: number | null;
+  private degradeAt: number;
+  private lastDailyState: BudgetState = 'normal';
+
+  private constructor() {
+    this.database = Database.getInstance();
+    this.prices = { ...DEFAULT_PRICES, ...loadPriceFile(process.env.COST_PRICES_PATH) };
+    this.dailyBudgetUsd = parseBudget('COST_DAILY_BUDGET_USD');
+    this.sessionBudgetUsd = parseBudget('COST_SESSION_BUDGET_USD');
+
+    const degradeAt = parseFloat(process.env.COST_DEGRADE_AT || '0.8');
+    this.degradeAt = degradeAt > 0 && degradeAt <= 1 ? degradeAt : 0.8;
+  }
+
+  public static getInstance(): CostAccountant {
+    if (!CostAccountant.instance) {
+      CostAccountant.instance = new CostAccountant();
+    }
+    return CostAccountant.instance;
+  }
+
+  // Budget state for the request's session (or the given one) and the day as a whole
+  async getBudgetStatus(sessionId: string | null | undefined = getRequestSessionId()): Promise<BudgetStatus> {
+    const { dailyUsd: dailySpendUsd, sessionUsd: sessionSpendUsd } = await this.database.getSpendTotals(sessionId || undefined);
+
+    const dailyState = this.stateFor(dailySpendUsd, this.dailyBudgetUsd);
+    const sessionState = sessionSpendUsd === null ? 'normal' : this.stateFor(sessionSpendUsd, this.sessionBudgetUsd);
+
+    if (dailyState !== this.lastDailyState) {
+      const level = dailyState === 'normal' ? 'info' : 'warn';
+      log[level]({ state: dailyState, dailySpendUsd, dailyBudgetUsd: this.dailyBudgetUsd }, 'Daily budget state changed');
+      this.lastDailyState = dailyState;
+    }
+
+    return {
+      state: [dailyState, sessionState].includes('exhausted') ? 'exhausted'
+        : [dailyState, sessionState].includes('degraded') ? 'degraded'
+        : 'normal',
+      dailySpendUsd,
+      dailyBudgetUsd: this.dailyBudgetUsd,
+      sessionSpendUsd,
+      sessionBudgetUsd: this.sessionBudgetUsd
+    };
+  }
+
+  // Throws BudgetExceededError once the day's or the session's budget is spent
+  async assertWithinBudget(sessionId: string | null | undefined = getRequestSessionId()): Promise<BudgetStatus> {
+    const status = await this.getBudgetStatus(sessionId);
+    if (status.state === 'exhausted') {
+      const dailySpent = this.dailyBudgetUsd !== null && status.dailySpendUsd >= this.dailyBudgetUsd;
+      throw new BudgetExceededError(dailySpent ? 'daily' : 'session');
+    }
+    return status;
+  }
+
+  // The cheaper chat model to use while a budget is nearly spent (undefined keeps the current one)
+  getDegradedLLMModel(provider: string): string | undefined {
+    if (process.env.COST_DEGRADED_LLM_MODEL) {
+      return process.env.COST_DEGRADED_LLM_MODEL;
+    }
+    return provider === 'openai' ? DEFAULT_DEGRADED_LLM_MODEL : undefined;
+  }
+
+  async recordChat(source: CostSource, usage: { promptTokens: number; completionTokens: number }): Promise<void> {
+    const price = this.priceFor(source);
+    const amountUsd = (usage.promptTokens * (price.inputPerMillionTokens || 0)
+      + usage.completionTokens * (price.outputPerMillionTokens || 0)) / 1_000_000;
+    await this.record('chat', source, amountUsd);
+  }
+
+  async recordTranscription(source: CostSource, audioSeconds: number): Promise<void> {
+    const price = this.priceFor(source);
+    await this.record('transcription', source, (audioSeconds / 60) * (price.perMinute || 0));
+  }
+
+  async recordSynthesis(source: CostSource, characters: number): Promise<void> {
+    const price = this.priceFor(source);
+    await this.record('synthesis', source, (characters * (price.perMillionCharacters || 0)) / 1_000_000);
+  }
+
+  private priceFor(source: CostSource): ModelPrice {
+    return this.prices[`${source.provider}/${source.model}`] || this.prices[source.model] || {};
+  }
+
+  // Failing to record spend never fails the request that caused it
+  private async record(kind: SpendKind, source: CostSource, amountUsd: number): Promise<void> {
+    if (!(amountUsd > 0)) return;
+
+    costTotal.inc({ route: getRequestRoute(), kind, provider: source.provider, model: source.model }, amountUsd);
+    try {
+      await this.database.recordSpend(getRequestSessionId() || null, kind, amountUsd);
+    } catch (error) {
+      log.error({ err: error, kind, amountUsd }, 'Failed to record spend');
+    }
+  }
+
+  private stateFor(spentUsd: number, budgetUsd: number | null): BudgetState {
+    if (budgetUsd === null) return 'normal';
+    if (spentUsd >= budgetUsd) return 'exhausted';
+    return spentUsd >= budgetUsd * this.degradeAt ? 'degraded' : 'normal';
+  }
+}
+
+function parseBudget(name: string): number | null {
+  const value = process.env[name];
+  if (!value) return null;
+
+  const budget = parseFloat(value);
+  if (!Number.isFinite(budget) || budget < 0) {
+    log.warn({ variable: name }, 'Ignoring invalid budget');
+    return null;
+  }
+  return budget;
+}
+
+function loadPriceFile(filePath: string | undefined): Record<string, ModelPrice> {
+  if (!filePath) return {};
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error('expected an object of model: price');
+    }
+
+    const prices: Record<string, ModelPrice> = {};
+    for (const [model, price] of Object.entries(data as Record<string, Record<string, unknown>>)) {
+      prices[model] = {};
+      for (const field of ['inputPerMillionTokens', 'outputPerMillionTokens', 'perMinute', 'perMillionCharacters'] as const) {
+        const value = price?.[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !(value >= 0)) {
+          throw new Error(`"${model}.${field}" must be a non-negative number`);
+        }
+        prices[model][field] = value;
+      }
+    }
+    log.info({ models: Object.keys(prices).length }, 'Loaded model prices');
+    return prices;
+  } catch (error) {
+    throw new Error(`Could not load COST_PRICES_PATH (${filePath}): ${error instanceof Error ? error.message : error}`);
+  }
+}
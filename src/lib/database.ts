@@ -1,32 +1,60 @@
+import { getStorageAdapter, StorageAdapter } from './storageAdapter';
+import type {
+  AnonymousUser,
+  AuditRecord,
+  ConversationMemoryRecord,
+  ConversationTurnRecord,
+  NewAuditRecord,
+  SpendKind,
+  SpendRecord,
+  SpendTotals
+} from './storageAdapter';
+import { createLogger } from './logger';
 
+const log = createLogger('database');
 
-// In-memory database (in production, use PostgreSQL, MongoDB, etc.)
+export type {
+  AnonymousUser,
+  AuditRecord,
+  ConversationMemoryRecord,
+  ConversationTurnRecord,
+  SpendKind,
+  SpendRecord,
+  SpendTotals
+} from './storageAdapter';
 
-// In-memory database (in production, use PostgreSQL, MongoDB, etc.)
-interface AnonymousUser {
-  sessionId: string;
-  createdAt: Date;
-  trialExpiresAt: Date;
-  dailyUsageMinutes: number;
+export interface ChatContextMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface DailyUsage {
+  usedMinutes: number;
+  limitMinutes: number; // Daily allowance plus today's bonus
+  bonusMinutes: number;
+  remainingMinutes: number;
   lastUsageDate: Date;
 }
 
-// Global in-memory store (replace with real database in production)
+// Streamed replies not stored yet, by session (shared by all route bundles)
 declare global {
-  var anonymousUsers: Map<string, AnonymousUser> | undefined;
+  var pendingExchanges: Map<string, Promise<void>> | undefined;
 }
 
-// Only initialize on server-side
-if (typeof window === 'undefined' && !global.anonymousUsers) {
-  global.anonymousUsers = new Map();
+if (typeof window === 'undefined' && !global.pendingExchanges) {
+  global.pendingExchanges = new Map();
 }
 
 export class Database {
   private static instance: Database;
-  private users: Map<string, AnonymousUser>;
+  private storage: StorageAdapter;
+  private pendingExchanges: Map<string, Promise<void>>;
+  private readonly DAILY_LIMIT_MINUTES = 5;
+  private readonly EXCHANGE_WAIT_MS = 5000; // Longest applyInterruption waits for a streamed reply
 
   private constructor() {
-    this.users = global.anonymousUsers!;
+    this.storage = getStorageAdapter();
+    this.pendingExchanges = global.pendingExchanges!;
   }
 
   public static getInstance(): Database {
@@ -49,13 +77,13 @@ export class Database {
       lastUsageDate: now
     };
 
-    this.users.set(sessionId, user);
+    await this.storage.saveUser(user);
     return user;
   }
 
   // Get user by session ID
   async getUserBySessionId(sessionId: string): Promise<AnonymousUser | null> {
-    return this.users.get(sessionId) || null;
+    return await this.storage.getUser(sessionId);
   }
 
   // Check if user has access (daily limit)
@@ -66,7 +94,7 @@ export class Database {
     trialExpiresAt?: Date;
     accessExpiresAt?: Date;
   }> {
-    const user = this.users.get(sessionId);
+    let user = await this.storage.getUser(sessionId);
     if (!user) {
       return { hasAccess: false, reason: 'User not found' };
     }
@@ -76,14 +104,13 @@ export class Database {
     // Check if it's a new day (reset daily usage)
     const isNewDay = this.isNewDay(user.lastUsageDate, now);
     if (isNewDay) {
-      // Reset daily usage
-      user.dailyUsageMinutes = 0;
-      user.lastUsageDate = now;
-      this.users.set(sessionId, user);
+      // Reset daily usage (bonus minutes only last for the day they were granted)
+      user = await this.storage.addUserUsage(sessionId, {}, this.startOfDay(now), now) || user;
     }
 
-    // Check if daily limit is reached (5 minutes)
-    if (user.dailyUsageMinutes >= 5) {
+    // Check if daily limit is reached (5 minutes plus any bonus)
+    const limitMinutes = this.dailyLimitFor(user);
+    if (user.dailyUsageMinutes >= limitMinutes) {
       return { 
         hasAccess: false, 
         reason: 'Daily limit reached. Please try again tomorrow.',
@@ -92,7 +119,7 @@ export class Database {
     }
 
     // Calculate remaining time
-    const remainingMinutes = 5 - user.dailyUsageMinutes;
+    const remainingMinutes = limitMinutes - user.dailyUsageMinutes;
     const expiresAt = new Date(now.getTime() + remainingMinutes * 60 * 1000);
 
     return { 
@@ -104,23 +131,67 @@ export class Database {
     };
   }
 
-  // Update user's daily usage
+  // Update user's daily usage (an atomic add: parallel requests all count)
   async updateDailyUsage(sessionId: string, usedMinutes: number): Promise<boolean> {
-    const user = this.users.get(sessionId);
-    if (!user) return false;
-
     const now = new Date();
-    
-    // Check if it's a new day
-    if (this.isNewDay(user.lastUsageDate, now)) {
-      user.dailyUsageMinutes = usedMinutes;
-      user.lastUsageDate = now;
-    } else {
-      user.dailyUsageMinutes += usedMinutes;
+    const user = await this.storage.addUserUsage(sessionId, { usedMinutes }, this.startOfDay(now), now);
+    return user !== null;
+  }
+
+  // Get remaining daily minutes (0 if the user does not exist)
+  async getRemainingDailyMinutes(sessionId: string): Promise<number> {
+    const user = await this.storage.getUser(sessionId);
+    if (!user) return 0;
+
+    if (this.isNewDay(user.lastUsageDate, new Date())) {
+      return this.DAILY_LIMIT_MINUTES;
     }
 
-    this.users.set(sessionId, user);
-    return true;
+    return Math.max(0, this.dailyLimitFor(user) - user.dailyUsageMinutes);
+  }
+
+  // Today's usage against the allowance (null if the user does not exist)
+  async getDailyUsage(sessionId: string): Promise<DailyUsage | null> {
+    const user = await this.storage.getUser(sessionId);
+    if (!user) return null;
+
+    if (this.isNewDay(user.lastUsageDate, new Date())) {
+      return {
+        usedMinutes: 0,
+        limitMinutes: this.DAILY_LIMIT_MINUTES,
+        bonusMinutes: 0,
+        remainingMinutes: this.DAILY_LIMIT_MINUTES,
+        lastUsageDate: user.lastUsageDate
+      };
+    }
+
+    const limitMinutes = this.dailyLimitFor(user);
+    return {
+      usedMinutes: user.dailyUsageMinutes,
+      limitMinutes,
+      bonusMinutes: user.bonusMinutes || 0,
+      remainingMinutes: Math.max(0, limitMinutes - user.dailyUsageMinutes),
+      lastUsageDate: user.lastUsageDate
+    };
+  }
+
+  // Add extra minutes to today's allowance (admin); they expire at the daily reset
+  async grantBonusMinutes(sessionId: string, minutes: number): Promise<DailyUsage | null> {
+    const now = new Date();
+    const user = await this.storage.addUserUsage(sessionId, { bonusMinutes: minutes }, this.startOfDay(now), now);
+    if (!user) return null;
+
+    return await this.getDailyUsage(sessionId);
+  }
+
+  private dailyLimitFor(user: AnonymousUser): number {
+    return this.DAILY_LIMIT_MINUTES + (user.bonusMinutes || 0);
+  }
+
+  private startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
   }
 
   // Check if it's a new day since last usage
@@ -136,7 +207,7 @@ export class Database {
 
   // Get all users (for admin purposes)
   async getAllUsers(): Promise<AnonymousUser[]> {
-    return Array.from(this.users.values());
+    return await this.storage.listUsers();
   }
 
   // Get usage statistics
@@ -146,11 +217,11 @@ export class Database {
     totalDailyUsage: number;
     averageUsagePerUser: number;
   }> {
-    const users = Array.from(this.users.values());
+    const users = await this.storage.listUsers();
     const now = new Date();
     
     const activeUsers = users.filter(user => 
-      this.isNewDay(user.lastUsageDate, now) || user.dailyUsageMinutes < 5
+      this.isNewDay(user.lastUsageDate, now) || user.dailyUsageMinutes < this.dailyLimitFor(user)
     ).length;
     
     const totalDailyUsage = users.reduce((sum, user) => sum + user.dailyUsageMinutes, 0);
@@ -164,15 +235,104 @@ export class Database {
     };
   }
 
+  // Store one finished exchange (called after the reply has been generated)
+  async recordConversationExchange(sessionId: string, message: string, response: string): Promise<void> {
+    const now = new Date();
+    await this.storage.appendTurn({ sessionId, role: 'user', content: message, interrupted: false, createdAt: now });
+    await this.storage.appendTurn({ sessionId, role: 'assistant', content: response, interrupted: false, createdAt: now });
+  }
+
+  // Stored turns, oldest first (most recent `limit` if given)
+  async getConversationHistory(sessionId: string, limit?: number): Promise<ConversationTurnRecord[]> {
+    return await this.storage.listTurns(sessionId, limit);
+  }
+
+  // History in the shape the chat model expects, without replies the user never heard
+  async getConversationContext(sessionId: string, limit: number): Promise<ChatContextMessage[]> {
+    const turns = await this.storage.listTurns(sessionId, limit);
+    return turns
+      .filter(turn => turn.content.length > 0)
+      .map(turn => ({ role: turn.role, content: turn.content }));
+  }
+
+  async clearConversationHistory(sessionId: string): Promise<number> {
+    return await this.storage.deleteTurns(sessionId);
+  }
+
+  // A reply is streaming for this session; call the returned function once it
+  // is stored (or failed). A barge-in cancels the stream and sends the next
+  // message at once, so applyInterruption waits for the cut-off reply first.
+  beginExchange(sessionId: string): () => void {
+    let end!: () => void;
+    const pending = new Promise<void>(resolve => {
+      end = resolve;
+    });
+    this.pendingExchanges.set(sessionId, pending);
+    pending.then(() => {
+      if (this.pendingExchanges.get(sessionId) === pending) {
+        this.pendingExchanges.delete(sessionId);
+      }
+    });
+    return end;
+  }
+
+  // The user talked over the last reply: keep only the part they heard.
+  // The client reports what was played, but it can only shorten the stored
+  // reply - text that does not match what the server said is ignored.
+  async applyInterruption(sessionId: string, heardText: string | null): Promise<ConversationTurnRecord | null> {
+    const pending = this.pendingExchanges.get(sessionId);
+    if (pending) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([pending, new Promise<void>(resolve => {
+        timer = setTimeout(resolve, this.EXCHANGE_WAIT_MS);
+      })]);
+      clearTimeout(timer);
+    }
+
+    const [lastTurn] = await this.storage.listTurns(sessionId, 1);
+    if (!lastTurn || lastTurn.role !== 'assistant' || lastTurn.interrupted) {
+      return null;
+    }
+
+    lastTurn.interrupted = true;
+
+    // Only an explicit empty report clears the reply; unknown heard text, or
+    // text that is not a prefix of the reply, keeps it whole
+    if (heardText !== null) {
+      const stored = lastTurn.content.replace(/\s+/g, ' ').trim();
+      const heard = heardText.replace(/\s+/g, ' ').trim();
+      if (heard === '' ? heardText === '' : stored.startsWith(heard)) {
+        lastTurn.content = heard;
+      }
+    }
+
+    await this.storage.updateTurn(lastTurn);
+    return lastTurn;
+  }
+
+  async getConversationMemory(sessionId: string): Promise<ConversationMemoryRecord | null> {
+    return await this.storage.getMemory(sessionId);
+  }
+
+  async saveConversationMemory(memory: ConversationMemoryRecord): Promise<void> {
+    await this.storage.saveMemory(memory);
+  }
+
+  async clearConversationMemory(sessionId: string): Promise<boolean> {
+    return await this.storage.deleteMemory(sessionId);
+  }
+
   // Clean up old sessions (older than 7 days)
   async cleanupExpiredSessions(): Promise<number> {
     const now = new Date();
     const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     let deletedCount = 0;
 
-    for (const [sessionId, user] of this.users.entries()) {
+    for (const user of await this.storage.listUsers()) {
       if (user.createdAt < sevenDaysAgo) {
-        this.users.delete(sessionId);
+        await this.storage.deleteUser(user.sessionId);
+        await this.storage.deleteTurns(user.sessionId);
+        await this.storage.deleteMemory(user.sessionId);
         deletedCount++;
       }
     }
@@ -180,8 +340,47 @@ export class Database {
     return deletedCount;
   }
 
-  // Reset database (for testing)
+  // Record an admin action in the audit log
+  async recordAuditEvent(event: Omit<NewAuditRecord, 'createdAt'>): Promise<AuditRecord> {
+    const record = await this.storage.appendAuditRecord({ ...event, createdAt: new Date() });
+    log.info({ action: record.action, actor: record.actor, sessionId: record.target }, 'Audit event recorded');
+    return record;
+  }
+
+  async getAuditLog(limit: number = 100): Promise<AuditRecord[]> {
+    return await this.storage.listAuditRecords(limit);
+  }
+
+  // Rejects if the storage backend is unavailable
+  async ping(): Promise<{ backend: string }> {
+    await this.storage.ping();
+    return { backend: this.storage.name };
+  }
+
+  // Add provider spend to today's (UTC) totals
+  async recordSpend(sessionId: string | null, kind: SpendKind, amountUsd: number): Promise<void> {
+    await this.storage.addSpend({ day: spendDay(), sessionId, kind, amountUsd });
+  }
+
+  // Today's spend records, for one session or all of them
+  async getDailySpend(sessionId?: string): Promise<SpendRecord[]> {
+    return await this.storage.listSpend(spendDay(), sessionId);
+  }
+
+  // Today's total spend, across all sessions and for one of them
+  async getSpendTotals(sessionId?: string): Promise<SpendTotals> {
+    return await this.storage.sumSpend(spendDay(), sessionId);
+  }
+
+  // Reset database (admin only; the audit log and spend totals are kept)
   async resetDatabase(): Promise<void> {
-    this.users.clear();
+    await this.storage.clearUsers();
+    await this.storage.clearTurns();
+    await this.storage.clearMemories();
   }
-} 
\ No newline at end of file
+}
+
+// Spend is bucketed by UTC day, so the daily budget resets at midnight UTC
+function spendDay(date: Date = new Date()): string {
+  return date.toISOString().substring(0, 10);
+}
@@ -0,0 +1,171 @@
+import { Database } from './database';
+import { getLLMProvider } from './llmProvider';
+import { getSTTProvider } from './sttProvider';
+import { TTSService } from './ttsService';
+import { TTSAudioCache } from './ttsCache';
+import { PersonaRegistry } from './personaRegistry';
+import { CostAccountant } from './costAccounting';
+import { listJobs } from './backgroundJobs';
+import { createLogger } from './logger';
+
+const log = createLogger('healthChecks');
+
+// Liveness and readiness for /api/health and /api/ready (and Railway's
+// deploy health check, see railway.json).
+//
+// Liveness only says the process is serving requests. Readiness checks what
+// a conversation needs: the storage backend, provider configuration, personas,
+// the TTS disk cache, the spending budget and background jobs. Nothing here
+// calls a model, so checks are free; results are cached for
+// HEALTH_CHECK_CACHE_MS (default 10s) so frequent probes do not hit storage.
+//
+// Statuses follow the health check draft (application/health+json): "fail"
+// makes the instance unready (503), "warn" is reported but still ready.
+// Each check's output (the reason for its status) is logged, not returned,
+// since both endpoints are public.
+
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  output?: string;
+  durationMs: number;
+}
+
+export interface ReadinessReport {
+  status: HealthStatus;
+  checks: Record<string, HealthCheckResult>;
+  checkedAt: Date;
+  cached: boolean;
+}
+
+export const HEALTH_CONTENT_TYPE = 'application/health+json';
+
+type CheckOutcome = Omit<HealthCheckResult, 'durationMs'>;
+
+export function getLiveness(): { status: HealthStatus; uptimeSeconds: number } {
+  return { status: 'pass', uptimeSeconds: Math.round(process.uptime()) };
+}
+
+export class HealthChecker {
+  private static instance: HealthChecker;
+  private lastReport: ReadinessReport | null = null;
+  private inFlight: Promise<ReadinessReport> | null = null;
+  private readonly cacheMs: number;
+  private readonly CHECK_TIMEOUT_MS = 3000;
+
+  private constructor() {
+    const cacheMs = parseInt(process.env.HEALTH_CHECK_CACHE_MS || '10000', 10);
+    this.cacheMs = Number.isFinite(cacheMs) && cacheMs >= 0 ? cacheMs : 10000;
+  }
+
+  public static getInstance(): HealthChecker {
+    if (!HealthChecker.instance) {
+      HealthChecker.instance = new HealthChecker();
+    }
+    return HealthChecker.instance;
+  }
+
+  async getReadiness(): Promise<ReadinessReport> {
+    if (this.lastReport && Date.now() - this.lastReport.checkedAt.getTime() < this.cacheMs) {
+      return { ...this.lastReport, cached: true };
+    }
+
+    // Concurrent probes share one run
+    if (!this.inFlight) {
+      this.inFlight = this.runChecks().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return await this.inFlight;
+  }
+
+  private async runChecks(): Promise<ReadinessReport> {
+    const checks: Record<string, () => Promise<CheckOutcome>> = {
+      storage: () => this.checkStorage(),
+      llm: async () => this.checkProvider(() => getLLMProvider()),
+      stt: async () => this.checkProvider(() => getSTTProvider()),
+      tts: async () => this.checkProvider(() => TTSService.getInstance()),
+      personas: async () => ({ status: 'pass', output: `${PersonaRegistry.getInstance().all().length} loaded` }),
+      ttsCache: () => this.checkTTSCache(),
+      budget: () => this.checkBudget(),
+      backgroundJobs: async () => this.checkJobs()
+    };
+
+    const results = Object.fromEntries(await Promise.all(
+      Object.entries(checks).map(async ([name, check]) => [name, await this.runCheck(name, check)] as const)
+    ));
+
+    const statuses = Object.values(results).map(result => result.status);
+    const report: ReadinessReport = {
+      status: statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass',
+      checks: results,
+      checkedAt: new Date(),
+      cached: false
+    };
+
+    if (report.status === 'fail' && this.lastReport?.status !== 'fail') {
+      const failing = Object.fromEntries(Object.entries(results)
+        .filter(([, result]) => result.status === 'fail')
+        .map(([name, result]) => [name, result.output || 'failed']));
+      log.warn({ failing }, 'Instance is not ready');
+    } else if (report.status !== 'fail' && this.lastReport?.status === 'fail') {
+      log.info('Instance is ready again');
+    }
+
+    this.lastReport = report;
+    return report;
+  }
+
+  private async runCheck(name: string, check: () => Promise<CheckOutcome>): Promise<HealthCheckResult> {
+    const checkStartedAt = performance.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${this.CHECK_TIMEOUT_MS}ms`)), this.CHECK_TIMEOUT_MS);
+      });
+      const outcome = await Promise.race([check(), timeout]);
+      return { ...outcome, durationMs: Math.round(performance.now() - checkStartedAt) };
+    } catch (error) {
+      log.error({ err: error, check: name }, 'Health check failed');
+      return { status: 'fail', output: 'Check failed', durationMs: Math.round(performance.now() - checkStartedAt) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async checkStorage(): Promise<CheckOutcome> {
+    const { backend } = await Database.getInstance().ping();
+    return { status: 'pass', output: backend };
+  }
+
+  // Creating a provider throws on incomplete settings (e.g. a missing base URL)
+  private checkProvider(getProvider: () => { isConfigured(): boolean }): CheckOutcome {
+    return getProvider().isConfigured()
+      ? { status: 'pass' }
+      : { status: 'fail', output: 'Not configured' };
+  }
+
+  // The disk cache is optional: without it audio is only cached in memory
+  private async checkTTSCache(): Promise<CheckOutcome> {
+    try {
+      return { status: 'pass', output: await TTSAudioCache.getInstance().checkDisk() ? 'memory and disk' : 'memory' };
+    } catch (error) {
+      log.warn({ err: error }, 'TTS cache directory is not usable');
+      return { status: 'warn', output: 'Disk cache directory is not writable' };
+    }
+  }
+
+  // A spent budget still answers (with canned replies), so it only warns
+  private async checkBudget(): Promise<CheckOutcome> {
+    const { state } = await CostAccountant.getInstance().getBudgetStatus(null);
+    return { status: state === 'normal' ? 'pass' : 'warn', output: state };
+  }
+
+  private checkJobs(): CheckOutcome {
+    const failed = listJobs().filter(job => job.state === 'failed').map(job => job.name);
+    return failed.length > 0
+      ? { status: 'warn', output: `Last run failed: ${failed.join(', ')}` }
+      : { status: 'pass' };
+  }
+}
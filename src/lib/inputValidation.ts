@@ -7,14 +7,10 @@ export class InputValidator {
   private static readonly MAX_WALLET_ADDRESS_LENGTH = 44;
   private static readonly MAX_REFERENCE_ID_LENGTH = 50;
   private static readonly MAX_MESSAGE_LENGTH = 500;
+  private static readonly MAX_HEARD_TEXT_LENGTH = 8000; // Longest reply a persona can produce (maxTokens up to 1000)
   private static readonly MAX_USER_AGENT_LENGTH = 500;
   private static readonly MAX_IP_LENGTH = 45;
 
-  // Rate limiting storage
-  private static rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-  private static readonly RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-  private static readonly RATE_LIMIT_MAX_REQUESTS = 100; // 100 requests per minute
-
   // Validate and sanitize session ID
   static validateSessionId(sessionId: string): { isValid: boolean; error?: string; sanitized?: string } {
     if (!sessionId || typeof sessionId !== 'string') {
@@ -151,42 +147,6 @@ export class InputValidator {
     return { isValid: true };
   }
 
-  // SECURITY FIX: Rate limiting
-  static checkRateLimit(identifier: string): { allowed: boolean; remaining: number; resetTime: number } {
-    const now = Date.now();
-    const key = `rate_limit_${identifier}`;
-    const record = this.rateLimitStore.get(key);
-
-    if (!record || now > record.resetTime) {
-      // Reset or create new record
-      this.rateLimitStore.set(key, {
-        count: 1,
-        resetTime: now + this.RATE_LIMIT_WINDOW
-      });
-      return { allowed: true, remaining: this.RATE_LIMIT_MAX_REQUESTS - 1, resetTime: now + this.RATE_LIMIT_WINDOW };
-    }
-
-    if (record.count >= this.RATE_LIMIT_MAX_REQUESTS) {
-      return { allowed: false, remaining: 0, resetTime: record.resetTime };
-    }
-
-    // Increment count
-    record.count++;
-    this.rateLimitStore.set(key, record);
-
-    return { allowed: true, remaining: this.RATE_LIMIT_MAX_REQUESTS - record.count, resetTime: record.resetTime };
-  }
-
-  // SECURITY FIX: Clean up rate limit store periodically
-  static cleanupRateLimitStore(): void {
-    const now = Date.now();
-    for (const [key, record] of this.rateLimitStore.entries()) {
-      if (now > record.resetTime) {
-        this.rateLimitStore.delete(key);
-      }
-    }
-  }
-
   // SECURITY FIX: Validate admin credentials
   static validateAdminCredentials(username: string, password: string): { isValid: boolean; error?: string } {
     if (!username || typeof username !== 'string') {
@@ -261,9 +221,33 @@ export class InputValidator {
       return null;
     }).filter(Boolean);
   }
-}
 
-// Start rate limit cleanup
-setInterval(() => {
-  InputValidator.cleanupRateLimitStore();
-}, 5 * 60 * 1000); // Every 5 minutes 
\ No newline at end of file
+  // Sanitize a barge-in report ({ heardText }) sent along with the next chat message.
+  // An empty heardText means the user heard none of the reply; null means the
+  // report carried no usable text, so the stored reply is kept as it is.
+  static sanitizeInterruption(interruption: any): { heardText: string | null } | null {
+    if (typeof interruption !== 'object' || interruption === null) {
+      return null;
+    }
+
+    if (typeof interruption.heardText !== 'string') {
+      return { heardText: null };
+    }
+
+    const heardText = interruption.heardText.trim();
+    if (!heardText) {
+      return { heardText: '' };
+    }
+
+    // Long replies are cut rather than rejected: a prefix of what was heard
+    // still trims the stored reply correctly
+    const sanitized = heardText
+      .substring(0, this.MAX_HEARD_TEXT_LENGTH)
+      .replace(/[<>]/g, '')
+      .replace(/javascript:/gi, '')
+      .replace(/data:/gi, '')
+      .replace(/vbscript:/gi, '')
+      .trim();
+    return { heardText: sanitized || null };
+  }
+}
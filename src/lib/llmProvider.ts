@@ -0,0 +1,360 @@
+import OpenAI from 'openai';
+import { createLogger, getRequestRoute } from './logger';
+import { getMetricsRegistry, startTimer } from './metrics';
+import { CostAccountant } from './costAccounting';
+
+const log = createLogger('llmProvider');
+
+const metrics = getMetricsRegistry();
+const llmDuration = metrics.histogram('samantha_llm_request_duration_seconds', 'Model call time until the full reply, by route, provider, model and mode');
+const llmFirstToken = metrics.histogram('samantha_llm_first_token_seconds', 'Time to the first streamed token, by route, provider and model');
+const llmTokens = metrics.counter('samantha_llm_tokens_total', 'Tokens reported by the model backend, by route, provider, model and type');
+const llmErrors = metrics.counter('samantha_llm_errors_total', 'Failed model calls, by route, provider, model and mode');
+
+// Chat model backends behind the chat routes.
+//
+// The provider is selected with LLM_PROVIDER:
+// - openai (default): api.openai.com with OPENAI_API_KEY
+// - openai-compatible: any server speaking the OpenAI chat API at LLM_BASE_URL
+//   (llama.cpp, Ollama, vLLM, ...), with LLM_API_KEY if it needs one
+// - mock: deterministic scripted replies, no network (for offline runs and tests);
+//   MOCK_LLM_TOKEN_DELAY_MS paces its stream like a real model
+// LLM_MODEL overrides the model name (default gpt-3.5-turbo).
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  stop?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  responseFormat?: 'text' | 'json';
+  model?: string; // Overrides the provider's model for this call (ignored by the mock)
+  signal?: AbortSignal; // Stops the call, e.g. when the client stops reading the stream
+  onUsage?: (usage: LLMUsage) => void; // Called once if the backend reports token usage
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<string>; // Full reply ('' if the model returned nothing)
+  stream(request: LLMRequest): Promise<AsyncIterable<string>>; // Resolves once the request is accepted, yields text deltas
+}
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+export const DEFAULT_LLM_MODEL = 'gpt-3.5-turbo';
+
+// OpenAI, or any server that implements its chat completions API
+export class OpenAIChatProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+  private apiKey: string | undefined;
+
+  constructor(options: { name: string; model: string; apiKey?: string; baseURL?: string }) {
+    this.name = options.name;
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.name !== 'openai' || !!this.apiKey;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      ...this.toParams(request),
+      stream: false
+    }, { signal: request.signal });
+    if (completion.usage) {
+      request.onUsage?.({
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens
+      });
+    }
+    return completion.choices[0]?.message?.content || '';
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncIterable<string>> {
+    const completion = await this.client.chat.completions.create({
+      ...this.toParams(request),
+      stream: true,
+      // Adds a final chunk with token usage; not every compatible server knows this option
+      stream_options: this.name === 'openai' ? { include_usage: true } : undefined
+    }, { signal: request.signal });
+
+    return (async function* () {
+      for await (const chunk of completion) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+        if (chunk.usage) {
+          request.onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens
+          });
+        }
+      }
+    })();
+  }
+
+  private toParams(request: LLMRequest) {
+    return {
+      model: request.model || this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stop: request.stop && request.stop.length > 0 ? request.stop : undefined,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+      response_format: request.responseFormat === 'json' ? { type: 'json_object' as const } : undefined
+    };
+  }
+}
+
+export interface MockScriptEntry {
+  match: RegExp; // Tested against the last user message
+  reply: string; // "{message}" is replaced with the user's message
+}
+
+const DEFAULT_MOCK_SCRIPT: MockScriptEntry[] = [
+  { match: /^(hi|hello|hey)\b/i, reply: 'Hello darling, I missed you. How are you feeling today?' },
+  { match: /\bmy name is (\w+)/i, reply: "What a lovely name. I'll remember it, sweetheart." },
+  { match: /\?\s*$/, reply: "That's a wonderful question, love. What do you think?" }
+];
+
+const MOCK_FALLBACK_REPLY = 'I hear you, darling. You said: "{message}". Tell me more.';
+
+// Deterministic replies from a script: the same conversation always gets the
+// same answer, with no network access
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  private script: MockScriptEntry[];
+  private tokenDelayMs: number;
+
+  constructor(script: MockScriptEntry[] = DEFAULT_MOCK_SCRIPT, model: string = 'mock-1', tokenDelayMs: number = 0) {
+    this.script = script;
+    this.model = model;
+    this.tokenDelayMs = tokenDelayMs;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const reply = this.reply(request);
+    this.reportUsage(request, reply);
+    return reply;
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncIterable<string>> {
+    const reply = this.reply(request);
+    this.reportUsage(request, reply);
+
+    // Word by word, like a real token stream
+    const tokenDelayMs = this.tokenDelayMs;
+    return (async function* () {
+      for (const token of reply.match(/\S+\s*/g) || []) {
+        if (tokenDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, tokenDelayMs));
+        }
+        if (request.signal?.aborted) return;
+        yield token;
+      }
+    })();
+  }
+
+  private reply(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    if (request.responseFormat === 'json') {
+      return JSON.stringify({ summary: `The user talked about: ${lastUserMessage.substring(0, 80)}`, facts: [] });
+    }
+
+    const entry = this.script.find(candidate => candidate.match.test(lastUserMessage));
+    const template = entry ? entry.reply : MOCK_FALLBACK_REPLY;
+    let reply = template.replace('{message}', lastUserMessage);
+
+    // Honor stop sequences and the token limit roughly like a real model
+    for (const stop of request.stop || []) {
+      const index = reply.indexOf(stop);
+      if (index >= 0) reply = reply.substring(0, index);
+    }
+    if (request.maxTokens) {
+      reply = reply.split(/\s+/).slice(0, request.maxTokens).join(' ');
+    }
+    return reply.trim();
+  }
+
+  // Words stand in for tokens, as with maxTokens above
+  private reportUsage(request: LLMRequest, reply: string): void {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    request.onUsage?.({
+      promptTokens: request.messages.reduce((total, message) => total + countWords(message.content), 0),
+      completionTokens: countWords(reply)
+    });
+  }
+}
+
+// Records latency, token, error and cost metrics for every call, whatever the
+// backend, and applies the spending budgets (see costAccounting.ts)
+class InstrumentedLLMProvider implements LLMProvider {
+  constructor(private inner: LLMProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const budgeted = await this.withinBudget(request);
+    const labels = this.labels(budgeted, 'complete');
+    const startedAt = startTimer();
+    try {
+      const reply = await this.inner.complete(this.countingUsage(budgeted));
+      llmDuration.observeSince(labels, startedAt);
+      return reply;
+    } catch (error) {
+      llmErrors.inc(labels);
+      throw error;
+    }
+  }
+
+  async stream(request: LLMRequest): Promise<AsyncIterable<string>> {
+    const budgeted = await this.withinBudget(request);
+    const labels = this.labels(budgeted, 'stream');
+    const startedAt = startTimer();
+    let deltas: AsyncIterable<string>;
+    try {
+      deltas = await this.inner.stream(this.countingUsage(budgeted));
+    } catch (error) {
+      if (!request.signal?.aborted) llmErrors.inc(labels);
+      throw error;
+    }
+
+    return (async function* () {
+      let firstToken = true;
+      try {
+        for await (const delta of deltas) {
+          if (firstToken) {
+            llmFirstToken.observeSince({ route: labels.route, provider: labels.provider, model: labels.model }, startedAt);
+            firstToken = false;
+          }
+          yield delta;
+        }
+      } catch (error) {
+        // A cancelled stream is not a backend failure
+        if (!request.signal?.aborted) llmErrors.inc(labels);
+        throw error;
+      }
+      llmDuration.observeSince(labels, startedAt);
+    })();
+  }
+
+  // Refuses the call once a budget is spent; near the limit, switches to the cheaper model
+  private async withinBudget(request: LLMRequest): Promise<LLMRequest> {
+    const costs = CostAccountant.getInstance();
+    const budget = await costs.assertWithinBudget();
+    const degradedModel = budget.state === 'degraded' ? costs.getDegradedLLMModel(this.inner.name) : undefined;
+    if (!degradedModel || request.model) {
+      return request;
+    }
+    log.debug({ model: degradedModel }, 'Budget nearly spent, using the degraded model');
+    return { ...request, model: degradedModel };
+  }
+
+  private modelFor(request: LLMRequest): string {
+    return this.inner.name !== 'mock' && request.model ? request.model : this.inner.model;
+  }
+
+  private labels(request: LLMRequest, mode: 'complete' | 'stream') {
+    return { route: getRequestRoute(), provider: this.inner.name, model: this.modelFor(request), mode };
+  }
+
+  private countingUsage(request: LLMRequest): LLMRequest {
+    const labels = { route: getRequestRoute(), provider: this.inner.name, model: this.modelFor(request) };
+    return {
+      ...request,
+      onUsage: (usage) => {
+        llmTokens.inc({ ...labels, type: 'prompt' }, usage.promptTokens);
+        llmTokens.inc({ ...labels, type: 'completion' }, usage.completionTokens);
+        void CostAccountant.getInstance().recordChat(labels, usage);
+        request.onUsage?.(usage);
+      }
+    };
+  }
+}
+
+declare global {
+  var llmProvider: LLMProvider | undefined;
+}
+
+export function getLLMProviderName(): LLMProviderName {
+  const value = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  if (value === 'openai-compatible' || value === 'mock') {
+    return value;
+  }
+  if (value !== 'openai') {
+    log.warn({ provider: value }, 'Unknown LLM_PROVIDER, falling back to openai');
+  }
+  return 'openai';
+}
+
+// Process-wide provider (created on first use)
+export function getLLMProvider(): LLMProvider {
+  if (!global.llmProvider) {
+    global.llmProvider = new InstrumentedLLMProvider(createLLMProvider(getLLMProviderName()));
+    log.info({ provider: global.llmProvider.name, model: global.llmProvider.model }, 'LLM provider ready');
+  }
+  return global.llmProvider;
+}
+
+function createLLMProvider(name: LLMProviderName): LLMProvider {
+  const model = process.env.LLM_MODEL || DEFAULT_LLM_MODEL;
+
+  switch (name) {
+    case 'mock':
+      return new MockLLMProvider(
+        DEFAULT_MOCK_SCRIPT,
+        process.env.LLM_MODEL || 'mock-1',
+        parseInt(process.env.MOCK_LLM_TOKEN_DELAY_MS || '0', 10) || 0
+      );
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+      }
+      return new OpenAIChatProvider({
+        name,
+        model,
+        apiKey: process.env.LLM_API_KEY,
+        baseURL: process.env.LLM_BASE_URL
+      });
+    default:
+      return new OpenAIChatProvider({ name, model, apiKey: process.env.OPENAI_API_KEY });
+  }
+}
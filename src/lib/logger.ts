@@ -0,0 +1,141 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import crypto from 'crypto';
+import pino, { type Logger } from 'pino';
+import pretty from 'pino-pretty';
+import { setClientIdentityLogger, subnetOf } from './clientIdentity';
+
+// Server-side structured logging. Every route and server lib logs through one
+// pino instance: JSON lines by default, human-readable when LOG_PRETTY=true
+// (the default outside production). Lines written while an API request is
+// being handled carry its request ID (see withRoutePolicy), and the request
+// context also tells metrics which route a provider call belongs to and cost
+// accounting which session pays for it.
+//
+// Pass sensitive values as fields, never inside the message:
+//   log.info({ sessionId, ip }, 'Session created')
+// so the redaction policy below can mask them. Browser code and the edge-safe
+// modules used by middleware cannot load pino and keep using console
+// (clientIdentity is handed its logger below when this module loads).
+
+export type { Logger } from 'pino';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Redaction policy, by field name (at the top level or one object down)
+const SESSION_ID_FIELDS = ['sessionId'];
+const IP_FIELDS = ['ip', 'ipAddress', 'clientIp'];
+const TEXT_FIELDS = ['text', 'transcript', 'reply', 'content'];
+const SECRET_FIELDS = [
+  'apiKey', 'token', 'secret', 'password', 'authorization', 'cookie', 'csrfToken', 'credentialId'
+];
+
+const REDACTED_PATHS = [...SESSION_ID_FIELDS, ...IP_FIELDS, ...TEXT_FIELDS, ...SECRET_FIELDS]
+  .flatMap(field => [field, `*.${field}`]);
+
+// Enough of a session ID to correlate log lines, not enough to use it
+export function maskSessionId(sessionId: string): string {
+  return `${sessionId.substring(0, 8)}...`;
+}
+
+// Only the network: 203.0.113.0/24, 2001:db8:1::/48
+export function maskIp(ip: string): string {
+  return subnetOf(ip) || '[redacted]';
+}
+
+// What users said or heard is never logged, only its length
+export function maskText(text: string): string {
+  return `[${text.length} chars]`;
+}
+
+function censor(value: unknown, path: string[]): unknown {
+  const field = path[path.length - 1];
+  if (typeof value !== 'string') {
+    return '[redacted]';
+  }
+  if (SESSION_ID_FIELDS.includes(field)) return maskSessionId(value);
+  if (IP_FIELDS.includes(field)) return maskIp(value);
+  if (TEXT_FIELDS.includes(field)) return maskText(value);
+  return '[redacted]';
+}
+
+export interface RequestContext {
+  requestId: string;
+  route: string; // The policy route, e.g. "/api/chat"
+  sessionId?: string; // Once the route policy has identified the session
+}
+
+// Process-wide logger and request context: each route bundle gets its own copy
+// of this module, so both live on global (this also survives HMR in development)
+declare global {
+  var logger: Logger | undefined;
+  var requestContext: AsyncLocalStorage<RequestContext> | undefined;
+}
+
+if (!global.requestContext) {
+  global.requestContext = new AsyncLocalStorage<RequestContext>();
+}
+
+// Use the caller's request ID (e.g. from a proxy) if it looks sane, otherwise make one
+export function requestIdFor(req: { headers: Headers }): string {
+  const incoming = req.headers.get(REQUEST_ID_HEADER);
+  return incoming && /^[\w.-]{8,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+// Run fn with every log line inside it tagged with the request ID
+export function runInRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return global.requestContext!.run(context, fn);
+}
+
+export function getRequestId(): string | undefined {
+  return global.requestContext!.getStore()?.requestId;
+}
+
+// The route being handled, or "background" for work outside a request
+export function getRequestRoute(): string {
+  return global.requestContext!.getStore()?.route || 'background';
+}
+
+// The session the request acts for (see CostAccountant)
+export function getRequestSessionId(): string | undefined {
+  return global.requestContext!.getStore()?.sessionId;
+}
+
+function getLogLevel(): pino.LevelWithSilent {
+  const value = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  return value === 'silent' || value in pino.levels.values ? value as pino.LevelWithSilent : 'info';
+}
+
+function isPrettyOutput(): boolean {
+  const value = process.env.LOG_PRETTY;
+  return value ? value === 'true' : process.env.NODE_ENV !== 'production';
+}
+
+function createRootLogger(): Logger {
+  const options: pino.LoggerOptions = {
+    level: getLogLevel(),
+    timestamp: pino.stdTimeFunctions.isoTime,
+    formatters: {
+      level: (label) => ({ level: label })
+    },
+    redact: { paths: REDACTED_PATHS, censor },
+    mixin: () => {
+      const requestId = getRequestId();
+      return requestId ? { requestId } : {};
+    }
+  };
+
+  if (isPrettyOutput()) {
+    return pino(options, pretty({ colorize: true, translateTime: 'SYS:HH:MM:ss', ignore: 'pid,hostname' }));
+  }
+  return pino(options);
+}
+
+// A logger for one module, e.g. createLogger('sessionManager')
+export function createLogger(module: string): Logger {
+  if (!global.logger) {
+    global.logger = createRootLogger();
+  }
+  return global.logger.child({ module });
+}
+
+setClientIdentityLogger(createLogger('clientIdentity'));
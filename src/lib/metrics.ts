@@ -0,0 +1,158 @@
+// In-process metrics, served by /api/metrics in the Prometheus text
+// exposition format (version 0.0.4).
+//
+// Metrics are declared where they are recorded, e.g.
+//   const llmDuration = getMetricsRegistry().histogram('samantha_llm_request_duration_seconds', '...');
+// Declaring an existing name returns the same metric, so every bundle that
+// includes a module shares its counters. Keep label values bounded (route
+// patterns, provider names) - never session IDs or user text.
+//
+// No Node imports: middleware records metrics too. It runs in a separate
+// runtime with its own registry, which it forwards to /api/metrics.
+
+export type MetricLabels = Record<string, string>;
+
+// Request header middleware uses to hand its rendered metrics to /api/metrics
+export const EDGE_METRICS_HEADER = 'x-samantha-edge-metrics';
+
+// Seconds, from a cached TTS response to a slow model reply
+export const LATENCY_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Metric {
+  readonly name: string;
+  readonly type: 'counter' | 'histogram';
+  render(): string[];
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  return value === Infinity ? '+Inf' : value.toString();
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private series = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(readonly name: string, private help: string) {}
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (!(value >= 0)) return; // Counters only go up
+    const key = labelKey(labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`)
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: MetricLabels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, private help: string, private bounds: number[] = LATENCY_BUCKETS) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    if (!Number.isFinite(value)) return;
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry!.buckets[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  // Observe the seconds elapsed since startTimer()
+  observeSince(labels: MetricLabels, startedAt: number): void {
+    this.observe(labels, (performance.now() - startedAt) / 1000);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels(labels, { le: formatValue(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, bounds?: number[]): Histogram {
+    return this.getOrCreate(name, 'histogram', () => new Histogram(name, help, bounds));
+  }
+
+  render(): string {
+    const lines = [...this.metrics.values()].flatMap(metric => metric.render());
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  // Compares type tags, not classes: each bundle has its own copy of this module
+  private getOrCreate<T extends Metric>(name: string, type: Metric['type'], create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing as T;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+// For measuring durations with Histogram.observeSince
+export function startTimer(): number {
+  return performance.now();
+}
+
+declare global {
+  var metricsRegistry: MetricsRegistry | undefined;
+}
+
+// Process-wide registry (one per runtime)
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!globalThis.metricsRegistry) {
+    globalThis.metricsRegistry = new MetricsRegistry();
+  }
+  return globalThis.metricsRegistry;
+}
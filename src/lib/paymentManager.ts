@@ -1,3 +1,7 @@
+import { createLogger } from './logger';
+
+const log = createLogger('paymentManager');
+
 // In-memory storage for paid sessions (in production, use a database)
 const paidSessions = new Map<string, { expiresAt: Date; accessType: string }>();
 
@@ -26,13 +30,13 @@ export function grantPaidAccess(sessionId: string, expiresAt: Date, accessType:
     expiresAt,
     accessType
   });
-  console.log(`✅ Paid access granted for session ${sessionId} until ${expiresAt}`);
+  log.info({ sessionId, expiresAt, accessType }, 'Paid access granted');
 }
 
 // Remove paid access (for cleanup)
 export function removePaidAccess(sessionId: string): void {
   paidSessions.delete(sessionId);
-  console.log(`🗑️ Paid access removed for session ${sessionId}`);
+  log.info({ sessionId }, 'Paid access removed');
 }
 
 // Get all active sessions (for debugging)
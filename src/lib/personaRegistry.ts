@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+import { SessionManager } from './sessionManager';
+import { createLogger } from './logger';
+
+const log = createLogger('personaRegistry');
+
+// Personas: everything that makes up a character, shared by the chat and TTS
+// routes.
+//
+// Each persona is a JSON file in PERSONAS_DIR (default ./personas). Files are
+// loaded and validated once per process; the server refuses to start (see
+// src/instrumentation.ts) if any file is invalid or DEFAULT_PERSONA
+// (default "samantha") is missing. Sessions can pick a persona; everything
+// else gets the default.
+
+export const TTS_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'onyx', 'nova', 'sage', 'shimmer', 'verse'] as const;
+
+export type TTSVoice = typeof TTS_VOICES[number];
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  toneExamples: string[];
+  voice: TTSVoice;
+  ttsSpeed: number; // 0.25 - 4.0
+  temperature: number;
+  maxTokens: number; // Upper bound for a full reply
+  stopSequences: string[]; // At most 3; routes may add a line-break stop
+  fallbackResponse: string; // Said when the model returns nothing
+  phrases: Record<string, string>; // Canned lines by key, pre-rendered to audio (see phraseLibrary.ts)
+}
+
+// Every persona has these phrases; a persona file may override them and add more
+export const DEFAULT_PHRASES: Record<string, string> = {
+  greeting: 'Hello! How can I help you today?',
+  error: "I'm having trouble understanding. Could you try again?",
+  'limit-reached': "I'm sorry, your time for today is up. Let's talk again tomorrow.",
+  'budget-reached': "I need to rest for a little while. Let's talk again later.",
+  goodbye: 'Goodbye for now. Talk to you soon.'
+};
+
+// What clients get to see when choosing a persona
+export type PersonaSummary = Pick<Persona, 'id' | 'name' | 'description' | 'voice'>;
+
+export class PersonaValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid persona configuration:\n- ${problems.join('\n- ')}`);
+    this.name = 'PersonaValidationError';
+  }
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const MAX_PROMPT_LENGTH = 8000;
+const MAX_PHRASES = 50;
+const MAX_PHRASE_LENGTH = 300; // Fits a single TTS request on every device profile
+
+export class PersonaRegistry {
+  private static instance: PersonaRegistry;
+  private personas: Map<string, Persona>;
+  private defaultPersonaId: string;
+
+  private constructor() {
+    const directory = path.resolve(process.cwd(), process.env.PERSONAS_DIR || 'personas');
+    this.defaultPersonaId = process.env.DEFAULT_PERSONA || 'samantha';
+    this.personas = PersonaRegistry.loadDirectory(directory);
+
+    if (!this.personas.has(this.defaultPersonaId)) {
+      throw new PersonaValidationError([`Default persona "${this.defaultPersonaId}" not found in ${directory}`]);
+    }
+
+    log.info({ personas: this.personas.size, defaultPersonaId: this.defaultPersonaId }, 'Loaded personas');
+  }
+
+  public static getInstance(): PersonaRegistry {
+    if (!PersonaRegistry.instance) {
+      PersonaRegistry.instance = new PersonaRegistry();
+    }
+    return PersonaRegistry.instance;
+  }
+
+  getDefault(): Persona {
+    return this.personas.get(this.defaultPersonaId)!;
+  }
+
+  get(personaId: string): Persona | null {
+    return this.personas.get(personaId) || null;
+  }
+
+  has(personaId: string): boolean {
+    return this.personas.has(personaId);
+  }
+
+  all(): Persona[] {
+    return [...this.personas.values()];
+  }
+
+  list(): PersonaSummary[] {
+    return [...this.personas.values()].map(({ id, name, description, voice }) => ({ id, name, description, voice }));
+  }
+
+  // The session's persona, falling back to the default (also when the
+  // persona it picked has since been removed)
+  async resolveForSession(sessionId?: string | null): Promise<Persona> {
+    if (!sessionId) return this.getDefault();
+
+    const personaId = await SessionManager.getInstance().getPersonaId(sessionId);
+    return (personaId && this.personas.get(personaId)) || this.getDefault();
+  }
+
+  private static loadDirectory(directory: string): Map<string, Persona> {
+    if (!fs.existsSync(directory)) {
+      throw new PersonaValidationError([`Persona directory ${directory} does not exist`]);
+    }
+
+    const personas = new Map<string, Persona>();
+    const problems: string[] = [];
+
+    const files = fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+      } catch (error) {
+        problems.push(`${file}: ${error instanceof Error ? error.message : 'unreadable'}`);
+        continue;
+      }
+
+      const result = validatePersona(raw);
+      if (result.problems.length > 0) {
+        problems.push(...result.problems.map(problem => `${file}: ${problem}`));
+      } else if (personas.has(result.persona!.id)) {
+        problems.push(`${file}: duplicate persona id "${result.persona!.id}"`);
+      } else {
+        personas.set(result.persona!.id, result.persona!);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new PersonaValidationError(problems);
+    }
+    return personas;
+  }
+}
+
+// Check one parsed persona file and fill in defaults
+export function validatePersona(raw: unknown): { persona?: Persona; problems: string[] } {
+  const problems: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { problems: ['must be a JSON object'] };
+  }
+  const data = raw as Record<string, unknown>;
+
+  const requireString = (field: string, maxLength: number): string => {
+    const value = data[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      problems.push(`"${field}" must be a non-empty string`);
+      return '';
+    }
+    if (value.length > maxLength) {
+      problems.push(`"${field}" is longer than ${maxLength} characters`);
+    }
+    return value.trim();
+  };
+
+  const optionalNumber = (field: string, fallback: number, min: number, max: number): number => {
+    const value = data[field];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      problems.push(`"${field}" must be a number between ${min} and ${max}`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const optionalStringList = (field: string, maxItems: number, maxLength: number): string[] => {
+    const value = data[field];
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item || item.length > maxLength)) {
+      problems.push(`"${field}" must be a list of strings (each at most ${maxLength} characters)`);
+      return [];
+    }
+    if (value.length > maxItems) {
+      problems.push(`"${field}" has more than ${maxItems} entries`);
+    }
+    return value as string[];
+  };
+
+  const id = requireString('id', 40);
+  if (id && !ID_PATTERN.test(id)) {
+    problems.push('"id" may only contain lowercase letters, digits and dashes');
+  }
+
+  const phrases = { ...DEFAULT_PHRASES };
+  if (data.phrases !== undefined) {
+    if (typeof data.phrases !== 'object' || data.phrases === null || Array.isArray(data.phrases)) {
+      problems.push('"phrases" must be an object of key: text');
+    } else {
+      const entries = Object.entries(data.phrases as Record<string, unknown>);
+      if (entries.length > MAX_PHRASES) {
+        problems.push(`"phrases" has more than ${MAX_PHRASES} entries`);
+      }
+      for (const [key, text] of entries) {
+        if (!ID_PATTERN.test(key)) {
+          problems.push(`phrase key "${key}" may only contain lowercase letters, digits and dashes`);
+        } else if (typeof text !== 'string' || !text.trim() || text.length > MAX_PHRASE_LENGTH) {
+          problems.push(`phrase "${key}" must be a non-empty string of at most ${MAX_PHRASE_LENGTH} characters`);
+        } else {
+          phrases[key] = text.trim();
+        }
+      }
+    }
+  }
+
+  const voice = data.voice === undefined ? 'nova' : data.voice;
+  if (!TTS_VOICES.includes(voice as TTSVoice)) {
+    problems.push(`"voice" must be one of ${TTS_VOICES.join(', ')}`);
+  }
+
+  const persona: Persona = {
+    id,
+    name: requireString('name', 60),
+    description: typeof data.description === 'string' ? data.description.trim() : '',
+    systemPrompt: requireString('systemPrompt', MAX_PROMPT_LENGTH),
+    toneExamples: optionalStringList('toneExamples', 20, 200),
+    voice: voice as TTSVoice,
+    ttsSpeed: optionalNumber('ttsSpeed', 1.0, 0.25, 4.0),
+    temperature: optionalNumber('temperature', 0.8, 0, 2),
+    maxTokens: optionalNumber('maxTokens', 150, 10, 1000),
+    stopSequences: optionalStringList('stopSequences', 3, 20),
+    fallbackResponse: typeof data.fallbackResponse === 'string' && data.fallbackResponse.trim()
+      ? data.fallbackResponse.trim()
+      : "I'm listening.",
+    phrases
+  };
+
+  return problems.length > 0 ? { problems } : { persona, problems };
+}
+
+// Full system prompt for a persona: the character plus its tone examples
+export function buildPersonaPrompt(persona: Persona): string {
+  if (persona.toneExamples.length === 0) {
+    return persona.systemPrompt;
+  }
+  const examples = persona.toneExamples.map(example => `- "${example}"`).join('\n');
+  return `${persona.systemPrompt}\n\nTone examples:\n${examples}`;
+}
@@ -0,0 +1,109 @@
+import { PersonaRegistry } from './personaRegistry';
+import type { Persona } from './personaRegistry';
+import { TTSService } from './ttsService';
+import type { SpeechSynthesisResult } from './ttsService';
+import { createLogger } from './logger';
+
+const log = createLogger('phraseLibrary');
+
+// Canned persona lines (greeting, error, limit-reached, goodbye, ...) rendered
+// to audio ahead of time so the client can play them instantly by key.
+//
+// prerender() runs once at startup (see src/instrumentation.ts; set
+// TTS_PRERENDER_PHRASES=false to skip it). Rendering goes through TTSService,
+// so with TTS_CACHE_DIR set the audio survives restarts and later startups
+// cost nothing. Phrases requested before prerendering finishes are rendered
+// on demand. /api/phrases is public, so a phrase that failed to render is not
+// retried for RENDER_RETRY_MS: requests in between get PhraseUnavailableError
+// instead of another paid synthesis call.
+
+export interface PrerenderSummary {
+  rendered: number;
+  failed: number;
+}
+
+export class PhraseUnavailableError extends Error {
+  readonly status = 503;
+
+  constructor(public readonly retryAfterSeconds: number) {
+    super('Phrase audio is temporarily unavailable');
+    this.name = 'PhraseUnavailableError';
+  }
+}
+
+export class PhraseLibrary {
+  private static instance: PhraseLibrary;
+  private rendered = new Map<string, SpeechSynthesisResult>(); // Keyed by "<persona>/<phrase>"
+  private inFlight = new Map<string, Promise<SpeechSynthesisResult>>();
+  private failedUntil = new Map<string, number>(); // Epoch ms before which a failed phrase is not retried
+  private readonly RENDER_RETRY_MS = 60 * 1000;
+
+  public static getInstance(): PhraseLibrary {
+    if (!PhraseLibrary.instance) {
+      PhraseLibrary.instance = new PhraseLibrary();
+    }
+    return PhraseLibrary.instance;
+  }
+
+  // Render every phrase of every persona, one at a time
+  async prerender(): Promise<PrerenderSummary> {
+    const summary: PrerenderSummary = { rendered: 0, failed: 0 };
+
+    if (!TTSService.getInstance().isConfigured()) {
+      log.warn('TTS provider is not configured, skipping phrase prerendering');
+      return summary;
+    }
+
+    for (const persona of PersonaRegistry.getInstance().all()) {
+      for (const key of Object.keys(persona.phrases)) {
+        try {
+          await this.render(persona, key);
+          summary.rendered++;
+        } catch (error) {
+          summary.failed++;
+          log.warn({ err: error, personaId: persona.id, phrase: key }, 'Failed to prerender phrase');
+        }
+      }
+    }
+
+    log.info(summary, 'Prerendered phrases');
+    return summary;
+  }
+
+  // Audio for one of the persona's phrases (null if it has no such phrase)
+  async get(persona: Persona, key: string): Promise<SpeechSynthesisResult | null> {
+    if (!Object.prototype.hasOwnProperty.call(persona.phrases, key)) {
+      return null;
+    }
+    return this.rendered.get(`${persona.id}/${key}`) || await this.render(persona, key);
+  }
+
+  private render(persona: Persona, key: string): Promise<SpeechSynthesisResult> {
+    const id = `${persona.id}/${key}`;
+
+    const retryAt = this.failedUntil.get(id) || 0;
+    if (retryAt > Date.now()) {
+      return Promise.reject(new PhraseUnavailableError(Math.ceil((retryAt - Date.now()) / 1000)));
+    }
+
+    // Startup and a client request may ask for the same phrase at once
+    let pending = this.inFlight.get(id);
+    if (!pending) {
+      pending = TTSService.getInstance()
+        .synthesize({ text: persona.phrases[key], persona, device: 'desktop' })
+        .then(speech => {
+          this.rendered.set(id, speech);
+          this.failedUntil.delete(id);
+          return speech;
+        }, error => {
+          this.failedUntil.set(id, Date.now() + this.RENDER_RETRY_MS);
+          throw error;
+        })
+        .finally(() => {
+          this.inFlight.delete(id);
+        });
+      this.inFlight.set(id, pending);
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,84 @@
+import { createAudioContext, createEndpointSynthesizer } from './ttsPlaybackQueue';
+
+// Client side of the phrase library: play a persona's canned line by key.
+//
+// Audio comes from /api/phrases/<key>, which is pre-rendered on the server
+// and kept in memory here after the first fetch, so playback starts
+// immediately. Keys the server does not know fall back to live TTS with
+// fallbackText.
+
+export type PhraseKey = 'greeting' | 'error' | 'limit-reached' | 'goodbye' | (string & {});
+
+export interface PlayPhraseOptions {
+  sessionId?: string; // Keeps phrases of different sessions (personas) apart in the cache
+  fallbackText?: string; // Spoken with live TTS if the phrase is unknown
+  audioContext?: AudioContext; // Reuse an unlocked context (required on iOS after a gesture)
+}
+
+// Encoded audio by "<sessionId>/<key>" (null: the server has no such phrase)
+const phraseAudio = new Map<string, Promise<ArrayBuffer | null>>();
+
+function fetchPhrase(key: PhraseKey, sessionId?: string): Promise<ArrayBuffer | null> {
+  const cacheKey = `${sessionId || ''}/${key}`;
+
+  let pending = phraseAudio.get(cacheKey);
+  if (!pending) {
+    // The session cookie picks the persona
+    pending = fetch(`/api/phrases/${encodeURIComponent(key)}`).then(async (response) => {
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Phrase request failed (${response.status})`);
+      }
+      return await response.arrayBuffer();
+    });
+    // Let a failed fetch be retried later
+    pending.catch(() => phraseAudio.delete(cacheKey));
+    phraseAudio.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+// Fetch phrases ahead of time so the first playback has no network delay
+export function preloadPhrases(keys: PhraseKey[], sessionId?: string): void {
+  keys.forEach(key => {
+    fetchPhrase(key, sessionId).catch((error) => {
+      console.warn(`Could not preload phrase "${key}":`, error);
+    });
+  });
+}
+
+// Resolves when playback has finished
+export async function playPhrase(key: PhraseKey, options: PlayPhraseOptions = {}): Promise<void> {
+  const { sessionId, fallbackText } = options;
+
+  // Created before the first await so it still counts as part of the user gesture
+  const audioContext = options.audioContext || createAudioContext();
+  try {
+    let audio = await fetchPhrase(key, sessionId);
+    if (!audio) {
+      if (!fallbackText) {
+        console.warn(`Unknown phrase "${key}" and no fallback text`);
+        return;
+      }
+      audio = await createEndpointSynthesizer('/api/tts')(fallbackText, new AbortController().signal);
+    }
+
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+
+    // decodeAudioData detaches its input, so keep the cached copy intact
+    const buffer = await audioContext.decodeAudioData(audio.slice(0));
+    await new Promise<void>(resolve => {
+      const source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioContext.destination);
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    if (!options.audioContext) {
+      audioContext.close().catch(() => {});
+    }
+  }
+}
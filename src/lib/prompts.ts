@@ -0,0 +1,8 @@
+// Prompt fragments shared by the chat routes (personas live in personas/*.json)
+
+// Tells the model its previous reply was cut off by the user
+export function buildInterruptionNote(heardText: string): string {
+  return heardText
+    ? `The user interrupted your previous reply. They only heard: "${heardText}". Do not repeat the rest unless asked.`
+    : 'The user interrupted your previous reply before hearing any of it.';
+}
@@ -0,0 +1,185 @@
+import type { RateLimitBucket } from './routePolicies';
+
+// Token-bucket rate limiting for the API, run from middleware.
+//
+// Every route names a bucket in routePolicies.ts. A request takes one token
+// from the caller's IP bucket and, when it carries a session cookie, one from
+// the session's bucket too; buckets refill continuously.
+// Counters live in a RateLimitStore: in memory per instance by default, or a
+// shared store (see KeyValueRateLimitStore) when several instances serve the
+// same users. Set RATE_LIMIT_ENABLED=false to turn limiting off.
+//
+// This file runs in the edge runtime; keep it free of Node-only imports.
+
+export interface RateLimitRule {
+  capacity: number; // Burst size
+  refillPerMinute: number; // Sustained rate
+}
+
+export interface BucketLimits {
+  perIp: RateLimitRule;
+  perSession?: RateLimitRule;
+}
+
+export const RATE_LIMITS: Record<RateLimitBucket, BucketLimits> = {
+  model: { perIp: { capacity: 30, refillPerMinute: 30 }, perSession: { capacity: 10, refillPerMinute: 20 } },
+  audio: { perIp: { capacity: 60, refillPerMinute: 120 }, perSession: { capacity: 30, refillPerMinute: 60 } },
+  session: { perIp: { capacity: 10, refillPerMinute: 10 } },
+  read: { perIp: { capacity: 60, refillPerMinute: 120 } },
+  admin: { perIp: { capacity: 5, refillPerMinute: 5 } }
+};
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // Epoch ms of the last refill
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number; // Bucket capacity
+  remaining: number; // Whole tokens left
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds: number; // Until the next token (0 when allowed)
+  policy: string; // RateLimit-Policy value, e.g. "10;w=30"
+}
+
+// Shared counter storage. consume() must apply the refill and the take
+// atomically for its key.
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision>;
+}
+
+// Refill the bucket up to now and try to take one token
+export function takeToken(state: BucketState | null, rule: RateLimitRule, now: number): { state: BucketState; decision: RateLimitDecision } {
+  const refillPerMs = rule.refillPerMinute / 60000;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(rule.capacity, state.tokens + elapsed * refillPerMs) : rule.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((rule.capacity - tokens) / refillPerMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+      policy: `${rule.capacity};w=${Math.round(rule.capacity / rule.refillPerMinute * 60)}`
+    }
+  };
+}
+
+// Per-instance buckets; idle ones are dropped once they would be full again
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState & { fullAt: number }>();
+  private lastSweep = 0;
+  private readonly SWEEP_INTERVAL_MS = 60 * 1000;
+
+  async consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    this.sweep(now);
+
+    const { state, decision } = takeToken(this.buckets.get(key) || null, rule, now);
+    this.buckets.set(key, { ...state, fullAt: now + decision.resetSeconds * 1000 });
+    return decision;
+  }
+
+  // No timers in the edge runtime, so clean up as requests come in
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+// Minimal async key-value client (Redis, Upstash, Vercel KV, ...)
+export interface SharedKeyValueStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+// Buckets kept in a shared key-value store. Read-modify-write is not atomic,
+// so concurrent requests for the same key can occasionally both pass; use a
+// store-side script (e.g. Redis EVAL with takeToken's logic) where that matters.
+export class KeyValueRateLimitStore implements RateLimitStore {
+  constructor(private kv: SharedKeyValueStore, private prefix: string = 'ratelimit:') {}
+
+  async consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    const raw = await this.kv.get(this.prefix + key);
+    let previous: BucketState | null = null;
+    if (raw) {
+      try {
+        previous = JSON.parse(raw) as BucketState;
+      } catch {
+        previous = null;
+      }
+    }
+
+    const { state, decision } = takeToken(previous, rule, now);
+    await this.kv.set(this.prefix + key, JSON.stringify(state), Math.max(1000, decision.resetSeconds * 1000));
+    return decision;
+  }
+}
+
+declare global {
+  var rateLimitStore: RateLimitStore | undefined;
+}
+
+// Replace the store (e.g. with a KeyValueRateLimitStore at startup).
+// globalThis rather than global: the edge runtime has no `global`.
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalThis.rateLimitStore = store;
+}
+
+function getRateLimitStore(): RateLimitStore {
+  if (!globalThis.rateLimitStore) {
+    globalThis.rateLimitStore = new MemoryRateLimitStore();
+  }
+  return globalThis.rateLimitStore;
+}
+
+export function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED !== 'false';
+}
+
+// Charge one request to its IP and session buckets. Returns the most
+// restrictive decision, which is what the response headers report. A request
+// the IP bucket refuses is not charged to the session.
+export async function checkRateLimit(
+  bucket: RateLimitBucket,
+  identity: { ip: string; sessionId?: string | null },
+  now: number = Date.now()
+): Promise<RateLimitDecision> {
+  const limits = RATE_LIMITS[bucket];
+  const store = getRateLimitStore();
+
+  const decisions = [await store.consume(`${bucket}:ip:${identity.ip}`, limits.perIp, now)];
+  if (decisions[0].allowed && limits.perSession && identity.sessionId) {
+    decisions.push(await store.consume(`${bucket}:session:${identity.sessionId}`, limits.perSession, now));
+  }
+
+  const denied = decisions.filter(decision => !decision.allowed);
+  if (denied.length > 0) {
+    return denied.reduce((worst, decision) => decision.retryAfterSeconds > worst.retryAfterSeconds ? decision : worst);
+  }
+  return decisions.reduce((tightest, decision) => decision.remaining < tightest.remaining ? decision : tightest);
+}
+
+// Standard RateLimit-* headers (IETF draft) plus Retry-After when denied
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': decision.limit.toString(),
+    'RateLimit-Remaining': decision.remaining.toString(),
+    'RateLimit-Reset': decision.resetSeconds.toString(),
+    'RateLimit-Policy': decision.policy
+  };
+  if (!decision.allowed) {
+    headers['Retry-After'] = decision.retryAfterSeconds.toString();
+  }
+  return headers;
+}
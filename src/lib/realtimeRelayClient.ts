@@ -0,0 +1,115 @@
+import { csrfHeaders } from './sessionCredentials';
+
+// Browser client for /api/realtime/relay.
+//
+// Holds the current short-lived relay token and fetches a new one from
+// /api/realtime/token shortly before it expires. The OpenAI key itself
+// never reaches the browser.
+
+interface RelayToken {
+  token: string;
+  expiresAt: number; // Epoch ms
+}
+
+export class RealtimeRelayClient {
+  private sessionId: string;
+  private currentToken: RelayToken | null = null;
+  private pendingToken: Promise<RelayToken> | null = null;
+  private readonly REFRESH_MARGIN_MS = 10 * 1000; // Refresh 10s before expiry
+
+  constructor(sessionId: string) {
+    this.sessionId = sessionId;
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  // Get a valid token, refreshing it if needed
+  async getToken(): Promise<string> {
+    if (this.currentToken && this.currentToken.expiresAt - Date.now() > this.REFRESH_MARGIN_MS) {
+      return this.currentToken.token;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.fetchToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+
+    this.currentToken = await this.pendingToken;
+    return this.currentToken.token;
+  }
+
+  // Drop the cached token (e.g. after the server rejected it)
+  reset(): void {
+    this.currentToken = null;
+  }
+
+  async transcribe(audio: Blob, filename: string = 'recording.webm'): Promise<string> {
+    const formData = new FormData();
+    formData.append('audio', audio, filename);
+
+    const response = await this.relay('transcription', { body: formData });
+    const data = await response.json();
+    return data.text || '';
+  }
+
+  // History is kept on the server; only report what was heard of an interrupted reply
+  async chat(message: string, interruption?: { heardText: string }): Promise<string> {
+    const response = await this.relay('chat', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, interruption })
+    });
+    const data = await response.json();
+    return data.response || '';
+  }
+
+  async speak(text: string): Promise<Blob> {
+    const response = await this.relay('speech', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text })
+    });
+    return await response.blob();
+  }
+
+  private async relay(operation: string, init: { headers?: Record<string, string>; body: BodyInit }): Promise<Response> {
+    const token = await this.getToken();
+
+    const response = await fetch(`/api/realtime/relay?op=${operation}`, {
+      method: 'POST',
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${token}`
+      },
+      body: init.body
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        this.reset();
+      }
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Relay ${operation} failed`);
+    }
+
+    return response;
+  }
+
+  private async fetchToken(): Promise<RelayToken> {
+    const response = await fetch('/api/realtime/token', {
+      method: 'POST',
+      headers: csrfHeaders()
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.reason || data.error || 'Failed to get realtime token');
+    }
+
+    return {
+      token: data.token,
+      expiresAt: new Date(data.expiresAt).getTime()
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { SessionManager } from './sessionManager';
+import { UsageMeter } from './usageMeter';
+import { createLogger } from './logger';
+
+const log = createLogger('realtimeTokens');
+
+// Short-lived, session-scoped credentials for the realtime relay.
+//
+// Tokens are HMAC-signed claims ("rt_<payload>.<signature>") so any instance
+// sharing REALTIME_TOKEN_SECRET can verify them without a lookup. They are
+// bound to one session, one scope, and expire after at most a minute or when
+// the session's remaining daily quota runs out, whichever comes first. There
+// is no per-token revocation: authorize() re-checks the session on every use,
+// so revoking the session (or running out of time) stops its tokens too.
+
+export type RealtimeTokenScope = 'realtime.relay';
+
+export interface RealtimeTokenClaims {
+  sid: string; // Session ID
+  scope: RealtimeTokenScope;
+  iat: number; // Issued at (epoch seconds)
+  exp: number; // Expires at (epoch seconds)
+  jti: string; // Token ID (makes every token unique)
+}
+
+export interface IssuedRealtimeToken {
+  token: string;
+  expiresAt: Date;
+  ttlSeconds: number;
+  scope: RealtimeTokenScope;
+}
+
+export class RealtimeTokenError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'RealtimeTokenError';
+  }
+}
+
+export class RealtimeTokenService {
+  private static instance: RealtimeTokenService;
+  private secret: Buffer;
+  private readonly TOKEN_PREFIX = 'rt_';
+  private readonly MAX_TTL_SECONDS = 60; // Tokens live for one minute at most
+  private readonly MIN_TTL_SECONDS = 5;
+
+  private constructor() {
+    const configuredSecret = process.env.REALTIME_TOKEN_SECRET;
+    if (configuredSecret) {
+      this.secret = Buffer.from(configuredSecret, 'utf8');
+    } else {
+      // Tokens from one instance will not verify on another without a shared secret
+      log.warn('REALTIME_TOKEN_SECRET not set - using a per-process secret');
+      this.secret = crypto.randomBytes(32);
+    }
+  }
+
+  public static getInstance(): RealtimeTokenService {
+    if (!RealtimeTokenService.instance) {
+      RealtimeTokenService.instance = new RealtimeTokenService();
+    }
+    return RealtimeTokenService.instance;
+  }
+
+  // Issue a token for a session that has already passed access control
+  async issueToken(sessionId: string, scope: RealtimeTokenScope = 'realtime.relay'): Promise<IssuedRealtimeToken> {
+    const remainingSeconds = await UsageMeter.getInstance().getRemainingSeconds(sessionId);
+    if (remainingSeconds <= 0) {
+      throw new RealtimeTokenError('Daily limit reached. Please try again tomorrow.', 403);
+    }
+
+    const ttlSeconds = Math.max(this.MIN_TTL_SECONDS, Math.min(this.MAX_TTL_SECONDS, remainingSeconds));
+    const now = Math.floor(Date.now() / 1000);
+    const claims: RealtimeTokenClaims = {
+      sid: sessionId,
+      scope,
+      iat: now,
+      exp: now + ttlSeconds,
+      jti: crypto.randomBytes(12).toString('hex')
+    };
+
+    return {
+      token: this.sign(claims),
+      expiresAt: new Date(claims.exp * 1000),
+      ttlSeconds,
+      scope
+    };
+  }
+
+  // Verify signature, scope and expiry (returns null if invalid)
+  verifyToken(token: string, scope: RealtimeTokenScope): RealtimeTokenClaims | null {
+    if (!token || !token.startsWith(this.TOKEN_PREFIX)) return null;
+
+    const [encodedClaims, signature] = token.substring(this.TOKEN_PREFIX.length).split('.');
+    if (!encodedClaims || !signature) return null;
+
+    const expected = this.createSignature(encodedClaims);
+    const provided = Buffer.from(signature, 'base64url');
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return null;
+    }
+
+    let claims: RealtimeTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.scope !== scope || claims.exp <= now) {
+      return null;
+    }
+
+    return claims;
+  }
+
+  // Verify a token and make sure its session is still allowed in
+  async authorize(
+    token: string,
+    scope: RealtimeTokenScope,
+    userAgent?: string,
+    ipAddress?: string
+  ): Promise<RealtimeTokenClaims> {
+    const claims = this.verifyToken(token, scope);
+    if (!claims) {
+      throw new RealtimeTokenError('Invalid or expired realtime token', 401);
+    }
+
+    const accessResult = await SessionManager.getInstance().checkAccess(claims.sid, userAgent, ipAddress);
+    if (!accessResult.hasAccess) {
+      throw new RealtimeTokenError(accessResult.reason, 403);
+    }
+
+    return claims;
+  }
+
+  private sign(claims: RealtimeTokenClaims): string {
+    const encodedClaims = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+    const signature = this.createSignature(encodedClaims).toString('base64url');
+    return `${this.TOKEN_PREFIX}${encodedClaims}.${signature}`;
+  }
+
+  private createSignature(encodedClaims: string): Buffer {
+    return crypto.createHmac('sha256', this.secret).update(encodedClaims).digest();
+  }
+}
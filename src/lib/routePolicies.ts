@@ -0,0 +1,84 @@
+// What every API route requires, in one table.
+//
+// Each route.ts under src/app/api wraps its handlers with
+// withRoutePolicy('<route>', ...) (see accessControl.ts), which looks the
+// route up here and enforces it; `npm run test:routes` fails if a route is
+// missing from this table or a handler is exported unwrapped. Keep this file
+// free of server-only imports so middleware can read it too.
+//
+// access:
+// - public: anyone
+// - session: a valid session with access left today (trial, paid or daily
+//   allowance); the session comes from the signed session cookie, and
+//   state-changing requests need the matching CSRF header
+// - owner: the caller's session must be the [id] in the path; works after the
+//   daily limit so users can still read and delete their own data (same
+//   cookie and CSRF rules)
+// - relay-token: a short-lived token from /api/realtime/token
+// - admin: an admin signed in at /admin or sending ADMIN_TOKEN (adminAuth.ts);
+//   every /api/admin route except the sign-in route itself, and /api/metrics
+// - development: disabled (404) when NODE_ENV is production
+// quota: what the handler debits from the daily allowance (UsageMeter kinds);
+//   routes with a quota are refused once the session has no time left today,
+//   and test:routes checks the handler debits exactly these kinds
+// rateLimit: the bucket the request counts against
+
+export type RouteAccess = 'public' | 'session' | 'owner' | 'relay-token' | 'admin' | 'development';
+
+export type RouteQuota = 'chat' | 'transcription' | 'synthesis';
+
+export type RateLimitBucket = 'model' | 'audio' | 'session' | 'read' | 'admin';
+
+export interface RoutePolicy {
+  access: RouteAccess;
+  quota: readonly RouteQuota[];
+  rateLimit: RateLimitBucket;
+}
+
+export const ROUTE_POLICIES = {
+  '/api/chat': { access: 'session', quota: ['chat'], rateLimit: 'model' },
+  '/api/chat-fast': { access: 'session', quota: ['chat'], rateLimit: 'model' },
+  '/api/transcribe': { access: 'session', quota: ['transcription'], rateLimit: 'audio' },
+  '/api/tts': { access: 'session', quota: ['synthesis'], rateLimit: 'audio' },
+  '/api/realtime/token': { access: 'session', quota: [], rateLimit: 'session' },
+  '/api/realtime/relay': { access: 'relay-token', quota: ['transcription', 'chat', 'synthesis'], rateLimit: 'model' },
+  '/api/session': { access: 'public', quota: [], rateLimit: 'session' },
+  '/api/session/[id]/history': { access: 'owner', quota: [], rateLimit: 'read' },
+  '/api/session/[id]/memory': { access: 'owner', quota: [], rateLimit: 'read' },
+  '/api/session/[id]/persona': { access: 'owner', quota: [], rateLimit: 'read' },
+  '/api/personas': { access: 'public', quota: [], rateLimit: 'read' },
+  '/api/phrases/[key]': { access: 'public', quota: [], rateLimit: 'read' },
+  '/api/status': { access: 'public', quota: [], rateLimit: 'read' },
+  '/api/health': { access: 'public', quota: [], rateLimit: 'read' },
+  '/api/ready': { access: 'public', quota: [], rateLimit: 'read' },
+  '/api/server-init': { access: 'public', quota: [], rateLimit: 'read' },
+  '/api/test': { access: 'development', quota: [], rateLimit: 'model' },
+  '/api/debug-session': { access: 'development', quota: [], rateLimit: 'read' },
+  '/api/admin/auth': { access: 'public', quota: [], rateLimit: 'admin' },
+  '/api/admin/sessions': { access: 'admin', quota: [], rateLimit: 'read' },
+  '/api/admin/sessions/[id]': { access: 'admin', quota: [], rateLimit: 'read' },
+  '/api/admin/sessions/[id]/bonus': { access: 'admin', quota: [], rateLimit: 'admin' },
+  '/api/admin/audit': { access: 'admin', quota: [], rateLimit: 'read' },
+  '/api/reset-database': { access: 'admin', quota: [], rateLimit: 'admin' },
+  '/api/metrics': { access: 'admin', quota: [], rateLimit: 'read' }
+} as const satisfies Record<string, RoutePolicy>;
+
+export type PolicyRoute = keyof typeof ROUTE_POLICIES;
+
+// The policy for a request path, matching [param] segments
+export function findRoutePolicy(pathname: string): { route: PolicyRoute; policy: RoutePolicy } | null {
+  const segments = pathname.replace(/\/+$/, '').split('/');
+
+  for (const route of Object.keys(ROUTE_POLICIES) as PolicyRoute[]) {
+    const routeSegments = route.split('/');
+    if (routeSegments.length !== segments.length) continue;
+
+    const matches = routeSegments.every((segment, index) =>
+      (segment.startsWith('[') && segment.endsWith(']') && segments[index] !== '') || segment === segments[index]
+    );
+    if (matches) {
+      return { route, policy: ROUTE_POLICIES[route] };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+// Incremental sentence splitter for streamed text.
+//
+// Text is pushed in arbitrary pieces (e.g. model tokens) and complete
+// sentences come out as soon as their terminating punctuation is followed by
+// whitespace. Whatever is left at the end is returned by flush().
+
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'jr', 'sr']);
+
+// Sentence-ending punctuation, optionally followed by closing quotes/brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s)/g;
+
+export class SentenceChunker {
+  private buffer = '';
+  private readonly minLength: number;
+
+  constructor(minLength: number = 8) {
+    this.minLength = minLength;
+  }
+
+  // Add text and return any sentences it completed
+  push(text: string): string[] {
+    this.buffer += text;
+    return this.extract();
+  }
+
+  // Return the remaining text as a final sentence
+  flush(): string[] {
+    const rest = this.normalize(this.buffer);
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+
+  private extract(): string[] {
+    const sentences: string[] = [];
+    let searchFrom = 0;
+
+    while (true) {
+      SENTENCE_END.lastIndex = searchFrom;
+      const match = SENTENCE_END.exec(this.buffer);
+      if (!match) break;
+
+      const end = match.index + match[0].length;
+      const candidate = this.normalize(this.buffer.slice(0, end));
+
+      // Keep going if this looks like an abbreviation or the sentence is too short to speak alone
+      if (this.endsWithAbbreviation(this.buffer.slice(0, match.index)) || candidate.length < this.minLength) {
+        searchFrom = end;
+        continue;
+      }
+
+      sentences.push(candidate);
+      this.buffer = this.buffer.slice(end);
+      searchFrom = 0;
+    }
+
+    return sentences;
+  }
+
+  private endsWithAbbreviation(text: string): boolean {
+    const lastWord = text.trim().split(/\s+/).pop() || '';
+    return ABBREVIATIONS.has(lastWord.toLowerCase());
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
+
+// Split a complete text into sentences
+export function splitSentences(text: string, minLength?: number): string[] {
+  const chunker = new SentenceChunker(minLength);
+  return [...chunker.push(text), ...chunker.flush()];
+}
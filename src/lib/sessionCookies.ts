@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME, SESSION_COOKIE_NAME } from './sessionCredentials';
+import { createLogger } from './logger';
+
+const log = createLogger('sessionCookies');
+
+// Signed session cookies and CSRF tokens.
+//
+// /api/session issues the session as an HttpOnly, SameSite=Strict cookie
+// "<sessionId>.<credentialId>.<signature>". The credential ID is also stored
+// on the session (SessionManager.issueCredential); issuing a new one rotates
+// the cookie and makes every older copy invalid. The CSRF token is an HMAC of
+// the same pair, so it rotates with the cookie and needs no storage.
+//
+// Environment variables:
+//   SESSION_COOKIE_SECRET - signing key; must be shared by all instances
+
+export interface SessionCookie {
+  sessionId: string;
+  credentialId: string;
+}
+
+export class SessionCookieService {
+  private static instance: SessionCookieService;
+  private secret: Buffer;
+  private readonly MAX_AGE_SECONDS = 24 * 60 * 60; // Matches SessionManager's session lifetime
+
+  private constructor() {
+    const configuredSecret = process.env.SESSION_COOKIE_SECRET;
+    if (configuredSecret) {
+      this.secret = Buffer.from(configuredSecret, 'utf8');
+    } else {
+      // Cookies will not survive a restart or verify on another instance
+      log.warn('SESSION_COOKIE_SECRET not set - using a per-process secret');
+      this.secret = crypto.randomBytes(32);
+    }
+  }
+
+  public static getInstance(): SessionCookieService {
+    if (!SessionCookieService.instance) {
+      SessionCookieService.instance = new SessionCookieService();
+    }
+    return SessionCookieService.instance;
+  }
+
+  // Verified contents of the request's session cookie, or null
+  read(req: NextRequest): SessionCookie | null {
+    const value = req.cookies.get(SESSION_COOKIE_NAME)?.value;
+    if (!value) return null;
+
+    const [sessionId, credentialId, signature] = value.split('.');
+    if (!sessionId || !credentialId || !signature) return null;
+
+    const expected = this.hmac(`session:${sessionId}.${credentialId}`);
+    return this.safeEqual(signature, expected) ? { sessionId, credentialId } : null;
+  }
+
+  csrfTokenFor(cookie: SessionCookie): string {
+    return this.hmac(`csrf:${cookie.sessionId}.${cookie.credentialId}`);
+  }
+
+  // The CSRF header must carry the token derived from the request's own cookie
+  verifyCsrf(req: NextRequest, cookie: SessionCookie): boolean {
+    const provided = req.headers.get(CSRF_HEADER_NAME);
+    return !!provided && this.safeEqual(provided, this.csrfTokenFor(cookie));
+  }
+
+  // Set the session and CSRF cookies on a response
+  attach(response: NextResponse, cookie: SessionCookie): void {
+    const secure = process.env.NODE_ENV === 'production';
+    const signature = this.hmac(`session:${cookie.sessionId}.${cookie.credentialId}`);
+
+    response.cookies.set(SESSION_COOKIE_NAME, `${cookie.sessionId}.${cookie.credentialId}.${signature}`, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure,
+      path: '/',
+      maxAge: this.MAX_AGE_SECONDS
+    });
+    response.cookies.set(CSRF_COOKIE_NAME, this.csrfTokenFor(cookie), {
+      httpOnly: false,
+      sameSite: 'strict',
+      secure,
+      path: '/',
+      maxAge: this.MAX_AGE_SECONDS
+    });
+  }
+
+  clear(response: NextResponse): void {
+    response.cookies.delete(SESSION_COOKIE_NAME);
+    response.cookies.delete(CSRF_COOKIE_NAME);
+  }
+
+  private hmac(payload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  private safeEqual(provided: string, expected: string): boolean {
+    const providedBuffer = Buffer.from(provided);
+    const expectedBuffer = Buffer.from(expected);
+    return providedBuffer.length === expectedBuffer.length && crypto.timingSafeEqual(providedBuffer, expectedBuffer);
+  }
+}
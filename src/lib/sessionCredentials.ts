@@ -0,0 +1,59 @@
+// Cookie and header names shared by the server (sessionCookies.ts), the
+// middleware and the browser, and the browser's session helpers. No Node
+// imports: this file runs everywhere.
+//
+// The session cookie is HttpOnly and holds "<sessionId>.<credentialId>.<signature>";
+// the CSRF cookie is readable so the page can echo it in the CSRF header on
+// state-changing requests.
+
+export const SESSION_COOKIE_NAME = 'samantha_session';
+export const CSRF_COOKIE_NAME = 'samantha_csrf';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+
+// Session ID part of a session cookie value. Not verified: only use it where
+// a forged value does no harm (e.g. as a rate-limit key).
+export function unverifiedSessionId(cookieValue: string | undefined): string | null {
+  if (!cookieValue) return null;
+  const [sessionId] = cookieValue.split('.');
+  return /^[a-f0-9]{32,64}$/i.test(sessionId) ? sessionId : null;
+}
+
+// Headers to add to POST/PUT/PATCH/DELETE requests from the browser
+export function csrfHeaders(): Record<string, string> {
+  if (typeof document === 'undefined') return {};
+
+  const prefix = `${CSRF_COOKIE_NAME}=`;
+  const cookie = document.cookie.split('; ').find(entry => entry.startsWith(prefix));
+  return cookie ? { [CSRF_HEADER_NAME]: decodeURIComponent(cookie.substring(prefix.length)) } : {};
+}
+
+// What POST /api/session answers (the fields the browser uses)
+export interface SessionStatus {
+  success: boolean;
+  sessionId: string;
+  hasAccess: boolean;
+  reason: string;
+  trialExpiresAt?: string;
+  error?: string;
+}
+
+let sessionStart: Promise<SessionStatus> | null = null;
+
+// Start or resume the session once per page load. The page and the voice
+// manager both wait for it; separate calls (or StrictMode running effects
+// twice) would race on a first visit and each create a session. A failed
+// start is forgotten so the next call tries again.
+export function startSession(): Promise<SessionStatus> {
+  if (!sessionStart) {
+    sessionStart = fetch('/api/session', { method: 'POST' }).then(async response => {
+      if (!response.ok) {
+        throw new Error('Failed to create session');
+      }
+      return await response.json() as SessionStatus;
+    });
+    sessionStart.catch(() => {
+      sessionStart = null;
+    });
+  }
+  return sessionStart;
+}
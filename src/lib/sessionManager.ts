@@ -1,43 +1,34 @@
 import { Database } from './database';
+import { getStorageAdapter, StorageAdapter } from './storageAdapter';
+import type { SessionData } from './storageAdapter';
+import { getSessionBindingPolicy, ipMatchesBinding } from './clientIdentity';
 import crypto from 'crypto';
+import { createLogger } from './logger';
+import { trackJob } from './backgroundJobs';
 
-interface SessionData {
-  sessionId: string;
-  createdAt: Date;
-  lastActivity: Date;
-  expiresAt: Date;
-  userAgent: string;
-  ipAddress: string;
-  dailyUsageStart?: Date;
-  dailyUsageMinutes?: number;
-}
+const log = createLogger('sessionManager');
 
-// SECURITY FIX: Server-side session storage with expiration
-declare global {
-  var activeSessions: Map<string, SessionData> | undefined;
-}
-
-// Only initialize on server-side
-if (typeof window === 'undefined' && !global.activeSessions) {
-  global.activeSessions = new Map();
-}
+export type { SessionData } from './storageAdapter';
 
 export class SessionManager {
   private static instance: SessionManager;
   private database: Database;
-  private sessions: Map<string, SessionData>;
+  private storage: StorageAdapter;
   private readonly SESSION_DURATION = 24 * 60 * 60 * 1000; // 24 hours
   private readonly DAILY_LIMIT_MINUTES = 5; // 5 minutes per day
   private readonly DAILY_RESET_HOURS = 24; // Reset every 24 hours
 
   private constructor() {
     this.database = Database.getInstance();
-    this.sessions = global.activeSessions!;
+    this.storage = getStorageAdapter();
     
     // Only start cleanup on server-side
     if (typeof window === 'undefined') {
       // Clean up expired sessions periodically
-      setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000); // Every 5 minutes
+      setInterval(() => {
+        trackJob('session-cleanup', () => this.cleanupExpiredSessions())
+          .catch((error) => log.error({ err: error }, 'Session cleanup failed'));
+      }, 5 * 60 * 1000); // Every 5 minutes
     }
   }
 
@@ -75,54 +66,34 @@ export class SessionManager {
     return remainingMinutes * 60 * 1000; // Convert to milliseconds
   }
 
-  // Update daily usage
-  private updateDailyUsage(session: SessionData, usedMinutes: number): SessionData {
-    const now = new Date();
-    
-    if (this.isDailyLimitReset(session)) {
-      // Reset daily usage
-      return {
-        ...session,
-        dailyUsageStart: now,
-        dailyUsageMinutes: usedMinutes
-      };
-    } else {
-      // Add to existing usage
-      const currentUsage = session.dailyUsageMinutes || 0;
-      return {
-        ...session,
-        dailyUsageMinutes: currentUsage + usedMinutes
-      };
-    }
-  }
-
   // SECURITY FIX: Validate session with proper checks
   async validateSession(sessionId: string, userAgent?: string, ipAddress?: string): Promise<boolean> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.storage.getSession(sessionId);
     if (!session) return false;
 
     const now = new Date();
     
     // Check if session has expired
     if (now > session.expiresAt) {
-      this.sessions.delete(sessionId);
+      await this.storage.deleteSession(sessionId);
       return false;
     }
 
     // SECURITY FIX: Validate user agent and IP (optional but recommended)
     if (userAgent && session.userAgent !== userAgent) {
-      console.warn('Session validation failed: User agent mismatch');
+      log.warn({ sessionId }, 'Session validation failed: user agent mismatch');
       return false;
     }
 
-    if (ipAddress && session.ipAddress !== ipAddress) {
-      console.warn('Session validation failed: IP address mismatch');
+    // How closely the address must match is set by SESSION_IP_BINDING
+    const bindingPolicy = getSessionBindingPolicy();
+    if (ipAddress && !ipMatchesBinding(session.ipAddress, ipAddress, bindingPolicy)) {
+      log.warn({ sessionId, ipAddress, bindingPolicy }, 'Session validation failed: IP address mismatch');
       return false;
     }
 
-    // Update last activity
-    session.lastActivity = now;
-    this.sessions.set(sessionId, session);
+    // Update last activity (only that field, other requests may be changing the session)
+    await this.storage.touchSession(sessionId, now);
 
     return true;
   }
@@ -165,7 +136,7 @@ export class SessionManager {
       dailyUsageMinutes: 0
     };
 
-    this.sessions.set(sessionId, sessionData);
+    await this.storage.saveSession(sessionData);
 
     // Create user in database
     const user = await this.database.createAnonymousUser(sessionId, this.DAILY_LIMIT_MINUTES);
@@ -199,20 +170,16 @@ export class SessionManager {
     return accessResult;
   }
 
-  // Update session usage time
+  // Update session usage time (an atomic add, restarting the count after DAILY_RESET_HOURS)
   async updateSessionUsage(sessionId: string, usedMinutes: number): Promise<boolean> {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
-
-    const updatedSession = this.updateDailyUsage(session, usedMinutes);
-    this.sessions.set(sessionId, updatedSession);
-    
-    return true;
+    const now = new Date();
+    const resetBefore = new Date(now.getTime() - this.DAILY_RESET_HOURS * 60 * 60 * 1000);
+    return await this.storage.addSessionUsage(sessionId, usedMinutes, resetBefore, now);
   }
 
   // Get remaining daily time for a session
   async getRemainingDailyTimeForSession(sessionId: string): Promise<number> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.storage.getSession(sessionId);
     if (!session) return 0;
 
     return this.getRemainingDailyTime(session);
@@ -223,31 +190,70 @@ export class SessionManager {
     const now = new Date();
     let deletedCount = 0;
 
-    for (const [sessionId, session] of this.sessions.entries()) {
+    for (const session of await this.storage.listSessions()) {
       if (now > session.expiresAt) {
-        this.sessions.delete(sessionId);
+        await this.storage.deleteSession(session.sessionId);
         deletedCount++;
       }
     }
 
     if (deletedCount > 0) {
-      console.log(`🧹 Cleaned up ${deletedCount} expired sessions`);
+      log.info({ deletedCount }, 'Cleaned up expired sessions');
     }
   }
 
   // SECURITY FIX: Invalidate session (for logout)
   async invalidateSession(sessionId: string): Promise<void> {
-    this.sessions.delete(sessionId);
+    await this.storage.deleteSession(sessionId);
+  }
+
+  // Issue a new cookie credential for the session, invalidating the previous
+  // one. /api/session calls this for new sessions and when a rotation is due.
+  async issueCredential(sessionId: string): Promise<string | null> {
+    const credentialId = crypto.randomBytes(16).toString('hex');
+    const updated = await this.storage.setSessionFields(sessionId, { credentialId, credentialRotationDue: false });
+    return updated ? credentialId : null;
+  }
+
+  // Privileges changed (e.g. an admin grant): rotate the cookie on the
+  // session's next /api/session call, so older copies lose the new access
+  async requireCredentialRotation(sessionId: string): Promise<void> {
+    await this.storage.setSessionFields(sessionId, { credentialRotationDue: true });
+  }
+
+  async isCredentialRotationDue(sessionId: string): Promise<boolean> {
+    const session = await this.storage.getSession(sessionId);
+    return session?.credentialRotationDue === true;
+  }
+
+  // Whether a cookie's credential is the session's current one
+  async hasCredential(sessionId: string, credentialId: string): Promise<boolean> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session?.credentialId) return false;
+
+    const expected = Buffer.from(session.credentialId);
+    const provided = Buffer.from(credentialId);
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  // Persona chosen for this session (undefined means the default persona)
+  async getPersonaId(sessionId: string): Promise<string | undefined> {
+    const session = await this.storage.getSession(sessionId);
+    return session?.personaId;
+  }
+
+  async setPersonaId(sessionId: string, personaId: string): Promise<boolean> {
+    return await this.storage.setSessionFields(sessionId, { personaId });
   }
 
   // Get session info (for debugging)
   async getSessionInfo(sessionId?: string): Promise<SessionData | null> {
     if (!sessionId) {
       // Return first available session or null
-      const firstSession = this.sessions.values().next().value;
+      const [firstSession] = await this.storage.listSessions();
       return firstSession || null;
     }
-    return this.sessions.get(sessionId) || null;
+    return await this.storage.getSession(sessionId);
   }
 
   // Stub methods for compatibility with existing components
@@ -263,6 +269,12 @@ export class SessionManager {
     return 300000; // Return 5 minutes in milliseconds
   }
 
+  // All stored sessions, newest activity first (for admin purposes)
+  async listSessions(): Promise<SessionData[]> {
+    const sessions = await this.storage.listSessions();
+    return sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+  }
+
   // Get all users (for admin purposes)
   async getAllUsers(): Promise<unknown[]> {
     return await this.database.getAllUsers();
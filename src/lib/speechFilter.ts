@@ -0,0 +1,29 @@
+// Decides whether a transcript is worth answering.
+//
+// Whisper happily transcribes breathing, room noise or its own prompt, and
+// the same utterance can arrive twice. These checks used to be duplicated
+// (with slightly different rules) in every voice hook.
+
+// Phrases Whisper produces for silence or noise, including echoes of its prompt
+const NOISE_PHRASES = [
+  'silence', 'noise', 'background', 'static', 'feedback', 'breathing', 'sigh', 'cough', 'clear throat',
+  'please transcribe clearly and accurately', 'transcribe clearly', 'please transcribe', 'transcribe accurately'
+];
+
+const FILLER_WORDS = new Set(['um', 'uh', 'ah', 'er', 'hmm', 'mm', 'mhm']);
+
+export function isMeaningfulSpeech(text: string, lastTranscript: string = ''): boolean {
+  const cleanText = text.trim().toLowerCase();
+
+  // Must contain actual words
+  if (cleanText.length < 2 || !/[a-z]{2,}/.test(cleanText)) return false;
+
+  // Avoid processing the same utterance twice
+  if (cleanText === lastTranscript.trim().toLowerCase()) return false;
+
+  if (NOISE_PHRASES.some(phrase => cleanText.includes(phrase))) return false;
+
+  // Must not be just filler sounds
+  const words = cleanText.replace(/[^a-z'\s]/g, ' ').split(/\s+/).filter(Boolean);
+  return words.some(word => !FILLER_WORDS.has(word));
+}
@@ -0,0 +1,667 @@
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type {
+  AdminSessionRecord,
+  AnonymousUser,
+  AuditRecord,
+  ConversationMemoryRecord,
+  ConversationTurnRecord,
+  DailyUsageChange,
+  NewAuditRecord,
+  NewConversationTurn,
+  SessionData,
+  SessionFieldUpdate,
+  SpendKind,
+  SpendRecord,
+  SpendTotals,
+  StorageAdapter
+} from './storageAdapter';
+import { createLogger } from './logger';
+
+const log = createLogger('sqliteStorageAdapter');
+
+// Schema migrations, applied in order and recorded in schema_migrations.
+// Never edit a released migration - append a new one instead.
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_anonymous_users_and_sessions',
+    up: `
+      CREATE TABLE anonymous_users (
+        session_id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        trial_expires_at INTEGER NOT NULL,
+        daily_usage_minutes REAL NOT NULL DEFAULT 0,
+        last_usage_date INTEGER NOT NULL
+      );
+
+      CREATE TABLE sessions (
+        session_id TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        user_agent TEXT NOT NULL,
+        ip_address TEXT NOT NULL,
+        daily_usage_start INTEGER,
+        daily_usage_minutes REAL
+      );
+
+      CREATE INDEX idx_sessions_expires_at ON sessions (expires_at);
+    `
+  },
+  {
+    version: 2,
+    name: 'create_conversation_turns',
+    up: `
+      CREATE TABLE conversation_turns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+        content TEXT NOT NULL,
+        interrupted INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX idx_conversation_turns_session ON conversation_turns (session_id, id);
+    `
+  },
+  {
+    version: 3,
+    name: 'create_conversation_memory',
+    up: `
+      CREATE TABLE conversation_memory (
+        session_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL DEFAULT '',
+        facts TEXT NOT NULL DEFAULT '[]',
+        summarized_through_turn_id INTEGER NOT NULL DEFAULT 0,
+        updated_at INTEGER NOT NULL
+      );
+    `
+  },
+  {
+    version: 4,
+    name: 'add_session_persona',
+    up: `
+      ALTER TABLE sessions ADD COLUMN persona_id TEXT;
+    `
+  },
+  {
+    version: 5,
+    name: 'add_session_credential',
+    up: `
+      ALTER TABLE sessions ADD COLUMN credential_id TEXT;
+    `
+  },
+  {
+    version: 6,
+    name: 'add_user_bonus_minutes',
+    up: `
+      ALTER TABLE anonymous_users ADD COLUMN bonus_minutes REAL NOT NULL DEFAULT 0;
+    `
+  },
+  {
+    version: 7,
+    name: 'create_audit_log',
+    up: `
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        target TEXT,
+        details TEXT,
+        ip_address TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `
+  },
+  {
+    version: 8,
+    name: 'create_daily_spend',
+    up: `
+      CREATE TABLE daily_spend (
+        day TEXT NOT NULL,
+        session_id TEXT NOT NULL DEFAULT '',
+        kind TEXT NOT NULL,
+        amount_usd REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (day, session_id, kind)
+      );
+    `
+  },
+  {
+    version: 9,
+    name: 'add_session_credential_rotation',
+    up: `
+      ALTER TABLE sessions ADD COLUMN credential_rotation_due INTEGER NOT NULL DEFAULT 0;
+    `
+  },
+  {
+    version: 10,
+    name: 'create_admin_sessions',
+    up: `
+      CREATE TABLE admin_sessions (
+        id TEXT PRIMARY KEY,
+        actor TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `
+  }
+];
+
+interface UserRow {
+  session_id: string;
+  created_at: number;
+  trial_expires_at: number;
+  daily_usage_minutes: number;
+  last_usage_date: number;
+  bonus_minutes: number;
+}
+
+interface SessionRow {
+  session_id: string;
+  created_at: number;
+  last_activity: number;
+  expires_at: number;
+  user_agent: string;
+  ip_address: string;
+  daily_usage_start: number | null;
+  daily_usage_minutes: number | null;
+  persona_id: string | null;
+  credential_id: string | null;
+  credential_rotation_due: number;
+}
+
+interface TurnRow {
+  id: number;
+  session_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  interrupted: number;
+  created_at: number;
+}
+
+interface SpendRow {
+  day: string;
+  session_id: string; // '' when the spend has no session
+  kind: SpendKind;
+  amount_usd: number;
+}
+
+interface AuditRow {
+  id: number;
+  action: string;
+  actor: string;
+  target: string | null;
+  details: string | null; // JSON object
+  ip_address: string;
+  created_at: number;
+}
+
+interface AdminSessionRow {
+  id: string;
+  actor: string;
+  expires_at: number;
+}
+
+interface MemoryRow {
+  session_id: string;
+  summary: string;
+  facts: string; // JSON array
+  summarized_through_turn_id: number;
+  updated_at: number;
+}
+
+// File-backed SQLite adapter (better-sqlite3 is loaded on first use)
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly name = 'sqlite';
+  private filePath: string;
+  private dbPromise: Promise<BetterSqlite3.Database> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async ping(): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('SELECT 1').get();
+  }
+
+  async getUser(sessionId: string): Promise<AnonymousUser | null> {
+    const db = await this.getDb();
+    const row = db.prepare('SELECT * FROM anonymous_users WHERE session_id = ?').get(sessionId) as UserRow | undefined;
+    return row ? this.toUser(row) : null;
+  }
+
+  async saveUser(user: AnonymousUser): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(`
+      INSERT INTO anonymous_users (session_id, created_at, trial_expires_at, daily_usage_minutes, last_usage_date, bonus_minutes)
+      VALUES (@session_id, @created_at, @trial_expires_at, @daily_usage_minutes, @last_usage_date, @bonus_minutes)
+      ON CONFLICT (session_id) DO UPDATE SET
+        created_at = excluded.created_at,
+        trial_expires_at = excluded.trial_expires_at,
+        daily_usage_minutes = excluded.daily_usage_minutes,
+        last_usage_date = excluded.last_usage_date,
+        bonus_minutes = excluded.bonus_minutes
+    `).run({
+      session_id: user.sessionId,
+      created_at: user.createdAt.getTime(),
+      trial_expires_at: user.trialExpiresAt.getTime(),
+      daily_usage_minutes: user.dailyUsageMinutes,
+      last_usage_date: user.lastUsageDate.getTime(),
+      bonus_minutes: user.bonusMinutes ?? 0
+    });
+  }
+
+  async deleteUser(sessionId: string): Promise<boolean> {
+    const db = await this.getDb();
+    return db.prepare('DELETE FROM anonymous_users WHERE session_id = ?').run(sessionId).changes > 0;
+  }
+
+  async listUsers(): Promise<AnonymousUser[]> {
+    const db = await this.getDb();
+    const rows = db.prepare('SELECT * FROM anonymous_users ORDER BY created_at').all() as UserRow[];
+    return rows.map(row => this.toUser(row));
+  }
+
+  async addUserUsage(sessionId: string, change: DailyUsageChange, dayStart: Date, now: Date): Promise<AnonymousUser | null> {
+    const db = await this.getDb();
+    const row = db.prepare(`
+      UPDATE anonymous_users SET
+        daily_usage_minutes = (CASE WHEN last_usage_date < @day_start THEN 0 ELSE daily_usage_minutes END) + @used_minutes,
+        bonus_minutes = (CASE WHEN last_usage_date < @day_start THEN 0 ELSE bonus_minutes END) + @bonus_minutes,
+        last_usage_date = CASE WHEN last_usage_date < @day_start THEN @now ELSE last_usage_date END
+      WHERE session_id = @session_id
+      RETURNING *
+    `).get({
+      session_id: sessionId,
+      used_minutes: change.usedMinutes || 0,
+      bonus_minutes: change.bonusMinutes || 0,
+      day_start: dayStart.getTime(),
+      now: now.getTime()
+    }) as UserRow | undefined;
+    return row ? this.toUser(row) : null;
+  }
+
+  async clearUsers(): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM anonymous_users').run();
+  }
+
+  async getSession(sessionId: string): Promise<SessionData | null> {
+    const db = await this.getDb();
+    const row = db.prepare('SELECT * FROM sessions WHERE session_id = ?').get(sessionId) as SessionRow | undefined;
+    return row ? this.toSession(row) : null;
+  }
+
+  async saveSession(session: SessionData): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(`
+      INSERT INTO sessions (session_id, created_at, last_activity, expires_at, user_agent, ip_address, daily_usage_start, daily_usage_minutes, persona_id, credential_id, credential_rotation_due)
+      VALUES (@session_id, @created_at, @last_activity, @expires_at, @user_agent, @ip_address, @daily_usage_start, @daily_usage_minutes, @persona_id, @credential_id, @credential_rotation_due)
+      ON CONFLICT (session_id) DO UPDATE SET
+        created_at = excluded.created_at,
+        last_activity = excluded.last_activity,
+        expires_at = excluded.expires_at,
+        user_agent = excluded.user_agent,
+        ip_address = excluded.ip_address,
+        daily_usage_start = excluded.daily_usage_start,
+        daily_usage_minutes = excluded.daily_usage_minutes,
+        persona_id = excluded.persona_id,
+        credential_id = excluded.credential_id,
+        credential_rotation_due = excluded.credential_rotation_due
+    `).run({
+      session_id: session.sessionId,
+      created_at: session.createdAt.getTime(),
+      last_activity: session.lastActivity.getTime(),
+      expires_at: session.expiresAt.getTime(),
+      user_agent: session.userAgent,
+      ip_address: session.ipAddress,
+      daily_usage_start: session.dailyUsageStart ? session.dailyUsageStart.getTime() : null,
+      daily_usage_minutes: session.dailyUsageMinutes ?? null,
+      persona_id: session.personaId ?? null,
+      credential_id: session.credentialId ?? null,
+      credential_rotation_due: session.credentialRotationDue ? 1 : 0
+    });
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const db = await this.getDb();
+    return db.prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId).changes > 0;
+  }
+
+  async listSessions(): Promise<SessionData[]> {
+    const db = await this.getDb();
+    const rows = db.prepare('SELECT * FROM sessions ORDER BY created_at').all() as SessionRow[];
+    return rows.map(row => this.toSession(row));
+  }
+
+  async touchSession(sessionId: string, lastActivity: Date): Promise<boolean> {
+    const db = await this.getDb();
+    return db.prepare('UPDATE sessions SET last_activity = ? WHERE session_id = ?')
+      .run(lastActivity.getTime(), sessionId).changes > 0;
+  }
+
+  async setSessionFields(sessionId: string, fields: SessionFieldUpdate): Promise<boolean> {
+    const columns: Record<string, string | number | null> = {};
+    if ('personaId' in fields) columns.persona_id = fields.personaId ?? null;
+    if ('credentialId' in fields) columns.credential_id = fields.credentialId ?? null;
+    if ('credentialRotationDue' in fields) columns.credential_rotation_due = fields.credentialRotationDue ? 1 : 0;
+
+    const db = await this.getDb();
+    const assignments = Object.keys(columns).map(column => `${column} = @${column}`);
+    if (assignments.length === 0) {
+      return db.prepare('SELECT 1 FROM sessions WHERE session_id = ?').get(sessionId) !== undefined;
+    }
+    return db.prepare(`UPDATE sessions SET ${assignments.join(', ')} WHERE session_id = @session_id`)
+      .run({ ...columns, session_id: sessionId }).changes > 0;
+  }
+
+  async addSessionUsage(sessionId: string, usedMinutes: number, resetBefore: Date, now: Date): Promise<boolean> {
+    const db = await this.getDb();
+    return db.prepare(`
+      UPDATE sessions SET
+        daily_usage_minutes = CASE
+          WHEN daily_usage_start IS NULL OR daily_usage_start <= @reset_before THEN @used_minutes
+          ELSE COALESCE(daily_usage_minutes, 0) + @used_minutes
+        END,
+        daily_usage_start = CASE
+          WHEN daily_usage_start IS NULL OR daily_usage_start <= @reset_before THEN @now
+          ELSE daily_usage_start
+        END
+      WHERE session_id = @session_id
+    `).run({
+      session_id: sessionId,
+      used_minutes: usedMinutes,
+      reset_before: resetBefore.getTime(),
+      now: now.getTime()
+    }).changes > 0;
+  }
+
+  async appendTurn(turn: NewConversationTurn): Promise<ConversationTurnRecord> {
+    const db = await this.getDb();
+    const result = db.prepare(`
+      INSERT INTO conversation_turns (session_id, role, content, interrupted, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(turn.sessionId, turn.role, turn.content, turn.interrupted ? 1 : 0, turn.createdAt.getTime());
+    return { ...turn, id: Number(result.lastInsertRowid) };
+  }
+
+  async listTurns(sessionId: string, limit?: number): Promise<ConversationTurnRecord[]> {
+    const db = await this.getDb();
+    const rows = limit !== undefined
+      ? db.prepare(`
+          SELECT * FROM (
+            SELECT * FROM conversation_turns WHERE session_id = ? ORDER BY id DESC LIMIT ?
+          ) ORDER BY id
+        `).all(sessionId, limit) as TurnRow[]
+      : db.prepare('SELECT * FROM conversation_turns WHERE session_id = ? ORDER BY id').all(sessionId) as TurnRow[];
+    return rows.map(row => this.toTurn(row));
+  }
+
+  async updateTurn(turn: ConversationTurnRecord): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('UPDATE conversation_turns SET content = ?, interrupted = ? WHERE id = ? AND session_id = ?')
+      .run(turn.content, turn.interrupted ? 1 : 0, turn.id, turn.sessionId);
+  }
+
+  async deleteTurns(sessionId: string): Promise<number> {
+    const db = await this.getDb();
+    return db.prepare('DELETE FROM conversation_turns WHERE session_id = ?').run(sessionId).changes;
+  }
+
+  async clearTurns(): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM conversation_turns').run();
+  }
+
+  async getMemory(sessionId: string): Promise<ConversationMemoryRecord | null> {
+    const db = await this.getDb();
+    const row = db.prepare('SELECT * FROM conversation_memory WHERE session_id = ?').get(sessionId) as MemoryRow | undefined;
+    return row ? this.toMemory(row) : null;
+  }
+
+  async saveMemory(memory: ConversationMemoryRecord): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(`
+      INSERT INTO conversation_memory (session_id, summary, facts, summarized_through_turn_id, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET
+        summary = excluded.summary,
+        facts = excluded.facts,
+        summarized_through_turn_id = excluded.summarized_through_turn_id,
+        updated_at = excluded.updated_at
+    `).run(
+      memory.sessionId,
+      memory.summary,
+      JSON.stringify(memory.facts),
+      memory.summarizedThroughTurnId,
+      memory.updatedAt.getTime()
+    );
+  }
+
+  async deleteMemory(sessionId: string): Promise<boolean> {
+    const db = await this.getDb();
+    return db.prepare('DELETE FROM conversation_memory WHERE session_id = ?').run(sessionId).changes > 0;
+  }
+
+  async clearMemories(): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM conversation_memory').run();
+  }
+
+  async appendAuditRecord(record: NewAuditRecord): Promise<AuditRecord> {
+    const db = await this.getDb();
+    const result = db.prepare(`
+      INSERT INTO audit_log (action, actor, target, details, ip_address, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      record.action,
+      record.actor,
+      record.target ?? null,
+      record.details ? JSON.stringify(record.details) : null,
+      record.ipAddress,
+      record.createdAt.getTime()
+    );
+    return { ...record, id: Number(result.lastInsertRowid) };
+  }
+
+  async listAuditRecords(limit: number): Promise<AuditRecord[]> {
+    const db = await this.getDb();
+    const rows = db.prepare('SELECT * FROM audit_log ORDER BY id DESC LIMIT ?').all(limit) as AuditRow[];
+    return rows.map(row => this.toAuditRecord(row));
+  }
+
+  async saveAdminSession(session: AdminSessionRecord): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM admin_sessions WHERE expires_at <= ?').run(Date.now());
+    db.prepare('INSERT OR REPLACE INTO admin_sessions (id, actor, expires_at) VALUES (?, ?, ?)')
+      .run(session.id, session.actor, session.expiresAt.getTime());
+  }
+
+  async getAdminSession(id: string): Promise<AdminSessionRecord | null> {
+    const db = await this.getDb();
+    const row = db.prepare('SELECT * FROM admin_sessions WHERE id = ?').get(id) as AdminSessionRow | undefined;
+    return row ? { id: row.id, actor: row.actor, expiresAt: new Date(row.expires_at) } : null;
+  }
+
+  async deleteAdminSession(id: string): Promise<boolean> {
+    const db = await this.getDb();
+    return db.prepare('DELETE FROM admin_sessions WHERE id = ?').run(id).changes > 0;
+  }
+
+  async addSpend(record: SpendRecord): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(`
+      INSERT INTO daily_spend (day, session_id, kind, amount_usd)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(day, session_id, kind) DO UPDATE SET amount_usd = amount_usd + excluded.amount_usd
+    `).run(record.day, record.sessionId ?? '', record.kind, record.amountUsd);
+  }
+
+  async listSpend(day: string, sessionId?: string): Promise<SpendRecord[]> {
+    const db = await this.getDb();
+    const rows = (sessionId === undefined
+      ? db.prepare('SELECT * FROM daily_spend WHERE day = ?').all(day)
+      : db.prepare('SELECT * FROM daily_spend WHERE day = ? AND session_id = ?').all(day, sessionId)) as SpendRow[];
+    return rows.map(row => ({
+      day: row.day,
+      sessionId: row.session_id || null,
+      kind: row.kind,
+      amountUsd: row.amount_usd
+    }));
+  }
+
+  async sumSpend(day: string, sessionId?: string): Promise<SpendTotals> {
+    const db = await this.getDb();
+    const row = db.prepare(`
+      SELECT
+        COALESCE(SUM(amount_usd), 0) AS daily_usd,
+        COALESCE(SUM(CASE WHEN session_id = @session_id THEN amount_usd END), 0) AS session_usd
+      FROM daily_spend WHERE day = @day
+    `).get({ day, session_id: sessionId ?? '' }) as { daily_usd: number; session_usd: number };
+    return { dailyUsd: row.daily_usd, sessionUsd: sessionId === undefined ? null : row.session_usd };
+  }
+
+  async close(): Promise<void> {
+    if (!this.dbPromise) return;
+    const db = await this.dbPromise;
+    db.close();
+    this.dbPromise = null;
+  }
+
+  // Open the database and bring the schema up to date
+  private getDb(): Promise<BetterSqlite3.Database> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.open().catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async open(): Promise<BetterSqlite3.Database> {
+    const { default: Sqlite } = await import('better-sqlite3');
+
+    if (this.filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+
+    const db = new Sqlite(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+
+    this.migrate(db);
+    log.info({ filePath: this.filePath }, 'SQLite storage ready');
+    return db;
+  }
+
+  private migrate(db: BetterSqlite3.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      );
+    `);
+
+    const applied = new Set(
+      (db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[]).map(row => row.version)
+    );
+
+    const pending = migrations
+      .filter(migration => !applied.has(migration.version))
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      db.transaction(() => {
+        db.exec(migration.up);
+        db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, Date.now());
+      })();
+      log.info({ version: migration.version, name: migration.name }, 'Applied migration');
+    }
+  }
+
+  private toUser(row: UserRow): AnonymousUser {
+    return {
+      sessionId: row.session_id,
+      createdAt: new Date(row.created_at),
+      trialExpiresAt: new Date(row.trial_expires_at),
+      dailyUsageMinutes: row.daily_usage_minutes,
+      lastUsageDate: new Date(row.last_usage_date),
+      bonusMinutes: row.bonus_minutes
+    };
+  }
+
+  private toAuditRecord(row: AuditRow): AuditRecord {
+    let details: Record<string, unknown> | undefined;
+    try {
+      details = row.details ? JSON.parse(row.details) : undefined;
+    } catch {
+      details = undefined;
+    }
+
+    return {
+      id: row.id,
+      action: row.action,
+      actor: row.actor,
+      target: row.target ?? undefined,
+      details,
+      ipAddress: row.ip_address,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private toTurn(row: TurnRow): ConversationTurnRecord {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      role: row.role,
+      content: row.content,
+      interrupted: row.interrupted === 1,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private toMemory(row: MemoryRow): ConversationMemoryRecord {
+    let facts: string[] = [];
+    try {
+      const parsed = JSON.parse(row.facts);
+      facts = Array.isArray(parsed) ? parsed.filter((fact): fact is string => typeof fact === 'string') : [];
+    } catch {
+      // Corrupt facts column - start over rather than fail the chat
+    }
+
+    return {
+      sessionId: row.session_id,
+      summary: row.summary,
+      facts,
+      summarizedThroughTurnId: row.summarized_through_turn_id,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private toSession(row: SessionRow): SessionData {
+    return {
+      sessionId: row.session_id,
+      createdAt: new Date(row.created_at),
+      lastActivity: new Date(row.last_activity),
+      expiresAt: new Date(row.expires_at),
+      userAgent: row.user_agent,
+      ipAddress: row.ip_address,
+      dailyUsageStart: row.daily_usage_start !== null ? new Date(row.daily_usage_start) : undefined,
+      dailyUsageMinutes: row.daily_usage_minutes ?? undefined,
+      personaId: row.persona_id ?? undefined,
+      credentialId: row.credential_id ?? undefined,
+      credentialRotationDue: row.credential_rotation_due === 1
+    };
+  }
+}
@@ -0,0 +1,438 @@
+import { SqliteStorageAdapter } from './sqliteStorageAdapter';
+import { createLogger } from './logger';
+
+const log = createLogger('storageAdapter');
+
+// Storage adapters behind Database and SessionManager.
+//
+// The backend is selected with STORAGE_BACKEND:
+// - memory (default): process-local Maps, wiped on every restart
+// - sqlite: file-backed database at SQLITE_PATH (default ./data/samantha.db)
+
+export interface AnonymousUser {
+  sessionId: string;
+  createdAt: Date;
+  trialExpiresAt: Date;
+  dailyUsageMinutes: number;
+  lastUsageDate: Date;
+  bonusMinutes?: number; // Extra minutes granted by an admin, for the current day only
+}
+
+export interface SessionData {
+  sessionId: string;
+  createdAt: Date;
+  lastActivity: Date;
+  expiresAt: Date;
+  userAgent: string;
+  ipAddress: string;
+  dailyUsageStart?: Date;
+  dailyUsageMinutes?: number;
+  personaId?: string; // Selected persona (default persona when unset)
+  credentialId?: string; // Current session cookie credential (see sessionCookies.ts)
+  credentialRotationDue?: boolean; // Privileges changed; the next /api/session call issues a new credential
+}
+
+export interface ConversationTurnRecord {
+  id: number;
+  sessionId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  interrupted: boolean; // Assistant reply cut short by the user (content is what they heard)
+  createdAt: Date;
+}
+
+export type NewConversationTurn = Omit<ConversationTurnRecord, 'id'>;
+
+// Minutes to add to a user's day (see StorageAdapter.addUserUsage)
+export interface DailyUsageChange {
+  usedMinutes?: number;
+  bonusMinutes?: number;
+}
+
+// Session fields that requests change independently of each other
+export type SessionFieldUpdate = Partial<Pick<SessionData, 'personaId' | 'credentialId' | 'credentialRotationDue'>>;
+
+export interface ConversationMemoryRecord {
+  sessionId: string;
+  summary: string; // Running summary of turns that left the context window
+  facts: string[]; // Durable facts about the user (name, preferences, ...)
+  summarizedThroughTurnId: number; // Last turn folded into the summary
+  updatedAt: Date;
+}
+
+export interface AuditRecord {
+  id: number;
+  action: string; // e.g. "session.revoke", "database.reset"
+  actor: string; // Admin who did it ("token" for ADMIN_TOKEN requests)
+  target?: string; // Session ID or other object acted on
+  details?: Record<string, unknown>;
+  ipAddress: string;
+  createdAt: Date;
+}
+
+export type NewAuditRecord = Omit<AuditRecord, 'id'>;
+
+// A signed-in admin cookie (see adminAuth.ts); signing out deletes it
+export interface AdminSessionRecord {
+  id: string;
+  actor: string;
+  expiresAt: Date;
+}
+
+export type SpendKind = 'transcription' | 'chat' | 'synthesis';
+
+// Running total of provider spend for one UTC day, session and kind
+export interface SpendRecord {
+  day: string; // YYYY-MM-DD (UTC)
+  sessionId: string | null; // null for work outside a session, e.g. phrase prerendering
+  kind: SpendKind;
+  amountUsd: number;
+}
+
+// A day's spend, summed over every session and over one of them
+export interface SpendTotals {
+  dailyUsd: number;
+  sessionUsd: number | null; // null when no session was asked for
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+
+  // Cheapest round trip to the backend; rejects if it is unavailable (for /api/ready)
+  ping(): Promise<void>;
+
+  // Anonymous users
+  getUser(sessionId: string): Promise<AnonymousUser | null>;
+  saveUser(user: AnonymousUser): Promise<void>;
+  deleteUser(sessionId: string): Promise<boolean>;
+  listUsers(): Promise<AnonymousUser[]>;
+  clearUsers(): Promise<void>;
+  // Atomically adds to today's usage and bonus minutes, first zeroing both if
+  // the user was last seen before dayStart; null if the user does not exist
+  addUserUsage(sessionId: string, change: DailyUsageChange, dayStart: Date, now: Date): Promise<AnonymousUser | null>;
+
+  // Server-side sessions
+  getSession(sessionId: string): Promise<SessionData | null>;
+  saveSession(session: SessionData): Promise<void>;
+  deleteSession(sessionId: string): Promise<boolean>;
+  listSessions(): Promise<SessionData[]>;
+  // Field-level updates, so concurrent requests do not write back stale copies
+  // of the whole session; false if the session does not exist
+  touchSession(sessionId: string, lastActivity: Date): Promise<boolean>;
+  setSessionFields(sessionId: string, fields: SessionFieldUpdate): Promise<boolean>;
+  // Atomically adds to the session's daily usage, restarting the count if it
+  // started before resetBefore
+  addSessionUsage(sessionId: string, usedMinutes: number, resetBefore: Date, now: Date): Promise<boolean>;
+
+  // Conversation history (turns are returned oldest first)
+  appendTurn(turn: NewConversationTurn): Promise<ConversationTurnRecord>;
+  listTurns(sessionId: string, limit?: number): Promise<ConversationTurnRecord[]>; // Most recent `limit` turns
+  updateTurn(turn: ConversationTurnRecord): Promise<void>;
+  deleteTurns(sessionId: string): Promise<number>;
+  clearTurns(): Promise<void>;
+
+  // Long-term conversation memory
+  getMemory(sessionId: string): Promise<ConversationMemoryRecord | null>;
+  saveMemory(memory: ConversationMemoryRecord): Promise<void>;
+  deleteMemory(sessionId: string): Promise<boolean>;
+  clearMemories(): Promise<void>;
+
+  // Admin audit log (never cleared by resets)
+  appendAuditRecord(record: NewAuditRecord): Promise<AuditRecord>;
+  listAuditRecords(limit: number): Promise<AuditRecord[]>; // Newest first
+
+  // Admin sign-ins (never cleared by resets; expired ones are dropped on save)
+  saveAdminSession(session: AdminSessionRecord): Promise<void>;
+  getAdminSession(id: string): Promise<AdminSessionRecord | null>;
+  deleteAdminSession(id: string): Promise<boolean>;
+
+  // Provider spend (never cleared by resets, the money is spent)
+  addSpend(record: SpendRecord): Promise<void>; // Adds amountUsd to the day/session/kind total
+  listSpend(day: string, sessionId?: string): Promise<SpendRecord[]>; // Every session's when sessionId is omitted
+  sumSpend(day: string, sessionId?: string): Promise<SpendTotals>;
+
+  close(): Promise<void>;
+}
+
+export type StorageBackend = 'memory' | 'sqlite';
+
+// Global in-memory store (survives hot reloads in development)
+declare global {
+  var anonymousUsers: Map<string, AnonymousUser> | undefined;
+  var activeSessions: Map<string, SessionData> | undefined;
+  var conversationTurns: Map<string, ConversationTurnRecord[]> | undefined;
+  var conversationTurnSequence: number | undefined;
+  var conversationMemories: Map<string, ConversationMemoryRecord> | undefined;
+  var auditRecords: AuditRecord[] | undefined;
+  var adminSessions: Map<string, AdminSessionRecord> | undefined;
+  var dailySpend: Map<string, SpendRecord> | undefined;
+  var dailySpendTotals: Map<string, number> | undefined;
+  var storageAdapter: StorageAdapter | undefined;
+}
+
+// In-memory adapter (the original behavior)
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private users: Map<string, AnonymousUser>;
+  private sessions: Map<string, SessionData>;
+  private turns: Map<string, ConversationTurnRecord[]>;
+  private memories: Map<string, ConversationMemoryRecord>;
+  private audit: AuditRecord[];
+  private adminSessions: Map<string, AdminSessionRecord>;
+  private spend: Map<string, SpendRecord>;
+  private spendTotals: Map<string, number>; // Per day and per day and session, kept as spend is added
+
+  constructor() {
+    if (!global.anonymousUsers) {
+      global.anonymousUsers = new Map();
+    }
+    if (!global.activeSessions) {
+      global.activeSessions = new Map();
+    }
+    if (!global.conversationTurns) {
+      global.conversationTurns = new Map();
+    }
+    this.users = global.anonymousUsers;
+    this.sessions = global.activeSessions;
+    if (!global.conversationMemories) {
+      global.conversationMemories = new Map();
+    }
+    this.turns = global.conversationTurns;
+    this.memories = global.conversationMemories;
+    if (!global.auditRecords) {
+      global.auditRecords = [];
+    }
+    this.audit = global.auditRecords;
+    if (!global.adminSessions) {
+      global.adminSessions = new Map();
+    }
+    this.adminSessions = global.adminSessions;
+    if (!global.dailySpend) {
+      global.dailySpend = new Map();
+    }
+    this.spend = global.dailySpend;
+    if (!global.dailySpendTotals) {
+      global.dailySpendTotals = new Map();
+    }
+    this.spendTotals = global.dailySpendTotals;
+  }
+
+  async ping(): Promise<void> {
+    // Always available
+  }
+
+  async getUser(sessionId: string): Promise<AnonymousUser | null> {
+    const user = this.users.get(sessionId);
+    return user ? { ...user } : null;
+  }
+
+  async saveUser(user: AnonymousUser): Promise<void> {
+    this.users.set(user.sessionId, { ...user });
+  }
+
+  async deleteUser(sessionId: string): Promise<boolean> {
+    return this.users.delete(sessionId);
+  }
+
+  async listUsers(): Promise<AnonymousUser[]> {
+    return Array.from(this.users.values()).map(user => ({ ...user }));
+  }
+
+  async clearUsers(): Promise<void> {
+    this.users.clear();
+  }
+
+  async addUserUsage(sessionId: string, change: DailyUsageChange, dayStart: Date, now: Date): Promise<AnonymousUser | null> {
+    const user = this.users.get(sessionId);
+    if (!user) return null;
+
+    if (user.lastUsageDate < dayStart) {
+      user.dailyUsageMinutes = 0;
+      user.bonusMinutes = 0;
+      user.lastUsageDate = now;
+    }
+    user.dailyUsageMinutes += change.usedMinutes || 0;
+    user.bonusMinutes = (user.bonusMinutes || 0) + (change.bonusMinutes || 0);
+    return { ...user };
+  }
+
+  async getSession(sessionId: string): Promise<SessionData | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async saveSession(session: SessionData): Promise<void> {
+    this.sessions.set(session.sessionId, { ...session });
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async listSessions(): Promise<SessionData[]> {
+    return Array.from(this.sessions.values()).map(session => ({ ...session }));
+  }
+
+  async touchSession(sessionId: string, lastActivity: Date): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    session.lastActivity = lastActivity;
+    return true;
+  }
+
+  async setSessionFields(sessionId: string, fields: SessionFieldUpdate): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    Object.assign(session, fields);
+    return true;
+  }
+
+  async addSessionUsage(sessionId: string, usedMinutes: number, resetBefore: Date, now: Date): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    if (!session.dailyUsageStart || session.dailyUsageStart <= resetBefore) {
+      session.dailyUsageStart = now;
+      session.dailyUsageMinutes = usedMinutes;
+    } else {
+      session.dailyUsageMinutes = (session.dailyUsageMinutes || 0) + usedMinutes;
+    }
+    return true;
+  }
+
+  async appendTurn(turn: NewConversationTurn): Promise<ConversationTurnRecord> {
+    global.conversationTurnSequence = (global.conversationTurnSequence || 0) + 1;
+    const record = { ...turn, id: global.conversationTurnSequence };
+
+    const turns = this.turns.get(turn.sessionId) || [];
+    turns.push(record);
+    this.turns.set(turn.sessionId, turns);
+    return { ...record };
+  }
+
+  async listTurns(sessionId: string, limit?: number): Promise<ConversationTurnRecord[]> {
+    const turns = this.turns.get(sessionId) || [];
+    const selected = limit !== undefined ? turns.slice(-limit) : turns;
+    return selected.map(turn => ({ ...turn }));
+  }
+
+  async updateTurn(turn: ConversationTurnRecord): Promise<void> {
+    const turns = this.turns.get(turn.sessionId) || [];
+    const index = turns.findIndex(existing => existing.id === turn.id);
+    if (index >= 0) {
+      turns[index] = { ...turn };
+    }
+  }
+
+  async deleteTurns(sessionId: string): Promise<number> {
+    const count = this.turns.get(sessionId)?.length || 0;
+    this.turns.delete(sessionId);
+    return count;
+  }
+
+  async clearTurns(): Promise<void> {
+    this.turns.clear();
+  }
+
+  async getMemory(sessionId: string): Promise<ConversationMemoryRecord | null> {
+    const memory = this.memories.get(sessionId);
+    return memory ? { ...memory, facts: [...memory.facts] } : null;
+  }
+
+  async saveMemory(memory: ConversationMemoryRecord): Promise<void> {
+    this.memories.set(memory.sessionId, { ...memory, facts: [...memory.facts] });
+  }
+
+  async deleteMemory(sessionId: string): Promise<boolean> {
+    return this.memories.delete(sessionId);
+  }
+
+  async clearMemories(): Promise<void> {
+    this.memories.clear();
+  }
+
+  async appendAuditRecord(record: NewAuditRecord): Promise<AuditRecord> {
+    const stored = { ...record, id: this.audit.length + 1 };
+    this.audit.push(stored);
+    return { ...stored };
+  }
+
+  async listAuditRecords(limit: number): Promise<AuditRecord[]> {
+    return this.audit.slice(-limit).reverse().map(record => ({ ...record }));
+  }
+
+  async saveAdminSession(session: AdminSessionRecord): Promise<void> {
+    const now = new Date();
+    for (const [id, existing] of this.adminSessions.entries()) {
+      if (existing.expiresAt <= now) {
+        this.adminSessions.delete(id);
+      }
+    }
+    this.adminSessions.set(session.id, { ...session });
+  }
+
+  async getAdminSession(id: string): Promise<AdminSessionRecord | null> {
+    const session = this.adminSessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async deleteAdminSession(id: string): Promise<boolean> {
+    return this.adminSessions.delete(id);
+  }
+
+  async addSpend(record: SpendRecord): Promise<void> {
+    const key = JSON.stringify([record.day, record.sessionId, record.kind]);
+    const existing = this.spend.get(key);
+    this.spend.set(key, { ...record, amountUsd: (existing?.amountUsd || 0) + record.amountUsd });
+
+    const totalKeys = [JSON.stringify([record.day])];
+    if (record.sessionId !== null) totalKeys.push(JSON.stringify([record.day, record.sessionId]));
+    for (const totalKey of totalKeys) {
+      this.spendTotals.set(totalKey, (this.spendTotals.get(totalKey) || 0) + record.amountUsd);
+    }
+  }
+
+  async listSpend(day: string, sessionId?: string): Promise<SpendRecord[]> {
+    return Array.from(this.spend.values())
+      .filter(record => record.day === day && (sessionId === undefined || record.sessionId === sessionId))
+      .map(record => ({ ...record }));
+  }
+
+  async sumSpend(day: string, sessionId?: string): Promise<SpendTotals> {
+    return {
+      dailyUsd: this.spendTotals.get(JSON.stringify([day])) || 0,
+      sessionUsd: sessionId === undefined ? null : this.spendTotals.get(JSON.stringify([day, sessionId])) || 0
+    };
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+// Resolve the configured backend name
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'memory').toLowerCase();
+  if (backend === 'memory' || backend === 'sqlite') {
+    return backend;
+  }
+  throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "memory" or "sqlite")`);
+}
+
+// Get the shared storage adapter for this process
+export function getStorageAdapter(): StorageAdapter {
+  if (!global.storageAdapter) {
+    global.storageAdapter = createStorageAdapter(getStorageBackend());
+    log.info({ backend: global.storageAdapter.name }, 'Storage backend ready');
+  }
+  return global.storageAdapter;
+}
+
+function createStorageAdapter(backend: StorageBackend): StorageAdapter {
+  if (backend === 'sqlite') {
+    return new SqliteStorageAdapter(process.env.SQLITE_PATH || './data/samantha.db');
+  }
+  return new MemoryStorageAdapter();
+}
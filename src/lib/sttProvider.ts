@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import OpenAI from 'openai';
+import { createLogger, getRequestRoute } from './logger';
+import { getMetricsRegistry, startTimer } from './metrics';
+import { CostAccountant } from './costAccounting';
+
+const log = createLogger('sttProvider');
+
+const metrics = getMetricsRegistry();
+const sttDuration = metrics.histogram('samantha_stt_request_duration_seconds', 'Transcription time, by route, provider and model');
+const sttAudioSeconds = metrics.counter('samantha_stt_audio_seconds_total', 'Seconds of audio transcribed, by route, provider and model');
+const sttErrors = metrics.counter('samantha_stt_errors_total', 'Failed transcriptions, by route, provider and model');
+
+// Speech-to-text backends behind /api/transcribe and the realtime relay.
+//
+// The provider is selected with STT_PROVIDER:
+// - openai (default): Whisper on api.openai.com with OPENAI_API_KEY
+// - openai-compatible: a local whisper server speaking the OpenAI audio API
+//   at STT_BASE_URL (faster-whisper-server, whisper.cpp server, ...)
+// - fake: canned results from a fixture file (STT_FIXTURES_PATH), no network
+// STT_MODEL overrides the model (default whisper-1), STT_LANGUAGE the spoken
+// language (default en, "auto" to let the model detect it).
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the audio
+  end: number;
+  text: string;
+  confidence: number; // 0-1
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language: string | null;
+  duration: number; // Seconds of audio
+  segments: TranscriptSegment[];
+  confidence: number; // 0-1, duration-weighted over the segments
+}
+
+export interface TranscriptionRequest {
+  audio: File;
+  language?: string; // ISO-639-1; omitted means auto-detect
+  prompt?: string;
+}
+
+export interface STTProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export type STTProviderName = 'openai' | 'openai-compatible' | 'fake';
+
+export const DEFAULT_STT_MODEL = 'whisper-1';
+
+export const DEFAULT_TRANSCRIPTION_PROMPT = 'This is a conversation with an AI assistant named Samantha. The user is speaking naturally and conversationally. Please transcribe their words accurately.';
+
+// Whisper's verbose_json segment (only the fields we use)
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+}
+
+// Whisper on OpenAI, or any server implementing its transcription API
+export class OpenAIWhisperProvider implements STTProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+  private apiKey: string | undefined;
+
+  constructor(options: { name: string; model: string; apiKey?: string; baseURL?: string }) {
+    this.name = options.name;
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.name !== 'openai' || !!this.apiKey;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: request.audio,
+      model: this.model,
+      language: request.language,
+      prompt: request.prompt,
+      response_format: 'verbose_json', // Includes duration, language and segments
+      timestamp_granularities: ['segment'],
+      temperature: 0.1 // Low temperature for accuracy
+    });
+
+    const segments = ((transcription.segments || []) as WhisperSegment[]).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      confidence: segmentConfidence(segment)
+    }));
+
+    return {
+      text: transcription.text.trim(),
+      language: normalizeLanguage(transcription.language),
+      duration: transcription.duration || 0,
+      segments,
+      confidence: overallConfidence(segments)
+    };
+  }
+}
+
+// Whisper reports language names ("english"); local servers often codes ("en")
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en', spanish: 'es', french: 'fr', german: 'de', italian: 'it', portuguese: 'pt',
+  dutch: 'nl', russian: 'ru', japanese: 'ja', chinese: 'zh', korean: 'ko', arabic: 'ar', hindi: 'hi'
+};
+
+function normalizeLanguage(language: string | undefined): string | null {
+  if (!language) return null;
+  const value = language.trim().toLowerCase();
+  return LANGUAGE_CODES[value] || value;
+}
+
+// Probability of the segment's tokens, discounted by how likely it is silence
+function segmentConfidence(segment: WhisperSegment): number {
+  const tokenProbability = segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : 1;
+  const speechProbability = 1 - (segment.no_speech_prob ?? 0);
+  return clamp01(tokenProbability * speechProbability);
+}
+
+function overallConfidence(segments: TranscriptSegment[]): number {
+  const totalDuration = segments.reduce((sum, segment) => sum + Math.max(0, segment.end - segment.start), 0);
+  if (segments.length === 0) return 0;
+  if (totalDuration === 0) {
+    return segments.reduce((sum, segment) => sum + segment.confidence, 0) / segments.length;
+  }
+  return segments.reduce((sum, segment) => sum + segment.confidence * Math.max(0, segment.end - segment.start), 0) / totalDuration;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export type TranscriptionFixture = Partial<TranscriptionResult> & { text: string };
+
+// Canned transcriptions, looked up by the SHA-256 of the audio bytes or by
+// the uploaded file name, with a "default" entry for everything else
+export class FakeSTTProvider implements STTProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-whisper';
+  private fixtures: Record<string, TranscriptionFixture>;
+
+  constructor(fixtures: Record<string, TranscriptionFixture> = {}) {
+    this.fixtures = fixtures;
+  }
+
+  static fromFile(fixturePath: string): FakeSTTProvider {
+    return new FakeSTTProvider(JSON.parse(fs.readFileSync(fixturePath, 'utf8')));
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const bytes = Buffer.from(await request.audio.arrayBuffer());
+    const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+
+    const fixture = this.fixtures[hash] || this.fixtures[request.audio.name] || this.fixtures.default ||
+      { text: 'Hello Samantha, how are you today?' };
+
+    const duration = fixture.duration ?? estimateWavDuration(bytes);
+    const text = fixture.text.trim();
+    const segments = fixture.segments ?? (text ? [{ start: 0, end: duration, text, confidence: fixture.confidence ?? 0.95 }] : []);
+
+    return {
+      text,
+      language: fixture.language ?? request.language ?? 'en',
+      duration,
+      segments,
+      confidence: fixture.confidence ?? overallConfidence(segments)
+    };
+  }
+}
+
+// Duration of a PCM WAV file from its header (0 for anything else)
+function estimateWavDuration(bytes: Buffer): number {
+  if (bytes.length < 44 || bytes.toString('ascii', 0, 4) !== 'RIFF' || bytes.toString('ascii', 8, 12) !== 'WAVE') {
+    return 0;
+  }
+  const byteRate = bytes.readUInt32LE(28);
+  return byteRate > 0 ? (bytes.length - 44) / byteRate : 0;
+}
+
+// Records latency, audio and error metrics and the cost of every transcription,
+// whatever the backend; refuses new ones once a spending budget is spent
+class InstrumentedSTTProvider implements STTProvider {
+  constructor(private inner: STTProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const costs = CostAccountant.getInstance();
+    await costs.assertWithinBudget();
+
+    const labels = { route: getRequestRoute(), provider: this.inner.name, model: this.inner.model };
+    const startedAt = startTimer();
+    try {
+      const result = await this.inner.transcribe(request);
+      sttDuration.observeSince(labels, startedAt);
+      sttAudioSeconds.inc(labels, result.duration);
+      await costs.recordTranscription(labels, result.duration);
+      return result;
+    } catch (error) {
+      sttErrors.inc(labels);
+      throw error;
+    }
+  }
+}
+
+declare global {
+  var sttProvider: STTProvider | undefined;
+}
+
+export function getSTTProviderName(): STTProviderName {
+  const value = (process.env.STT_PROVIDER || 'openai').toLowerCase();
+  if (value === 'openai-compatible' || value === 'fake') {
+    return value;
+  }
+  if (value !== 'openai') {
+    log.warn({ provider: value }, 'Unknown STT_PROVIDER, falling back to openai');
+  }
+  return 'openai';
+}
+
+// Language to request (undefined lets the model detect it)
+export function getTranscriptionLanguage(): string | undefined {
+  const language = (process.env.STT_LANGUAGE || 'en').toLowerCase();
+  return language === 'auto' ? undefined : language;
+}
+
+// Process-wide provider (created on first use)
+export function getSTTProvider(): STTProvider {
+  if (!global.sttProvider) {
+    global.sttProvider = new InstrumentedSTTProvider(createSTTProvider(getSTTProviderName()));
+    log.info({ provider: global.sttProvider.name, model: global.sttProvider.model }, 'STT provider ready');
+  }
+  return global.sttProvider;
+}
+
+function createSTTProvider(name: STTProviderName): STTProvider {
+  const model = process.env.STT_MODEL || DEFAULT_STT_MODEL;
+
+  switch (name) {
+    case 'fake':
+      return process.env.STT_FIXTURES_PATH
+        ? FakeSTTProvider.fromFile(process.env.STT_FIXTURES_PATH)
+        : new FakeSTTProvider();
+    case 'openai-compatible':
+      if (!process.env.STT_BASE_URL) {
+        throw new Error('STT_BASE_URL is required when STT_PROVIDER=openai-compatible');
+      }
+      return new OpenAIWhisperProvider({
+        name,
+        model,
+        apiKey: process.env.STT_API_KEY,
+        baseURL: process.env.STT_BASE_URL
+      });
+    default:
+      return new OpenAIWhisperProvider({ name, model, apiKey: process.env.OPENAI_API_KEY });
+  }
+}
@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+import { getMetricsRegistry } from './metrics';
+
+const log = createLogger('ttsCache');
+
+const cacheLookups = getMetricsRegistry().counter('samantha_tts_cache_lookups_total', 'TTS audio cache lookups, by result (memory_hit, disk_hit or miss)');
+
+// Content-addressed cache for synthesized speech.
+//
+// Audio is keyed by a hash of everything that shapes it (provider, text,
+// voice, speed, format), so the key doubles as the response ETag. Entries
+// live in an in-memory LRU (TTS_CACHE_MAX_BYTES, default 32 MB) and,
+// when TTS_CACHE_DIR is set, in a directory that survives restarts
+// (TTS_CACHE_DISK_MAX_BYTES, default 256 MB; oldest files are pruned first).
+// TTS_CACHE_MAX_ENTRY_BYTES (default 1 MB) keeps long one-off clips out.
+
+export interface SpeechCacheKeyParts {
+  provider: string;
+  text: string;
+  voice: string;
+  speed: number;
+  format: string;
+}
+
+export interface CachedSpeech {
+  audio: Buffer;
+  contentType: string;
+}
+
+export interface TTSCacheStats {
+  hits: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  diskEnabled: boolean;
+}
+
+// Stored next to the audio on disk so the content type survives restarts
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+export class TTSAudioCache {
+  private static instance: TTSAudioCache;
+  private entries = new Map<string, CachedSpeech>(); // Insertion order is recency order
+  private bytes = 0;
+  private maxBytes: number;
+  private maxEntryBytes: number;
+  private directory: string | null;
+  private maxDiskBytes: number;
+  private diskBytes: number | null = null; // Scanned on the first write
+  private counters = { hits: 0, memoryHits: 0, diskHits: 0, misses: 0, evictions: 0 };
+
+  private constructor() {
+    this.maxBytes = parseInt(process.env.TTS_CACHE_MAX_BYTES || String(32 * 1024 * 1024), 10);
+    this.maxEntryBytes = parseInt(process.env.TTS_CACHE_MAX_ENTRY_BYTES || String(1024 * 1024), 10);
+    this.maxDiskBytes = parseInt(process.env.TTS_CACHE_DISK_MAX_BYTES || String(256 * 1024 * 1024), 10);
+    this.directory = process.env.TTS_CACHE_DIR ? path.resolve(process.cwd(), process.env.TTS_CACHE_DIR) : null;
+
+    if (this.directory) {
+      fs.mkdirSync(this.directory, { recursive: true });
+      log.info({ directory: this.directory }, 'TTS audio cache on disk');
+    }
+  }
+
+  public static getInstance(): TTSAudioCache {
+    if (!TTSAudioCache.instance) {
+      TTSAudioCache.instance = new TTSAudioCache();
+    }
+    return TTSAudioCache.instance;
+  }
+
+  static keyFor(parts: SpeechCacheKeyParts): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([parts.provider, parts.text, parts.voice, parts.speed.toFixed(2), parts.format]))
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<CachedSpeech | null> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Move to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      this.counters.hits++;
+      this.counters.memoryHits++;
+      cacheLookups.inc({ result: 'memory_hit' });
+      return cached;
+    }
+
+    const fromDisk = await this.readFromDisk(key);
+    if (fromDisk) {
+      this.remember(key, fromDisk);
+      this.counters.hits++;
+      this.counters.diskHits++;
+      cacheLookups.inc({ result: 'disk_hit' });
+      return fromDisk;
+    }
+
+    this.counters.misses++;
+    cacheLookups.inc({ result: 'miss' });
+    return null;
+  }
+
+  async set(key: string, speech: CachedSpeech): Promise<void> {
+    if (speech.audio.length === 0 || speech.audio.length > this.maxEntryBytes) {
+      return;
+    }
+    this.remember(key, speech);
+    await this.writeToDisk(key, speech);
+  }
+
+  // Rejects if the disk cache directory is gone or not writable (false without one)
+  async checkDisk(): Promise<boolean> {
+    if (!this.directory) return false;
+    await fs.promises.access(this.directory, fs.constants.R_OK | fs.constants.W_OK);
+    return true;
+  }
+
+  stats(): TTSCacheStats {
+    return {
+      ...this.counters,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      diskEnabled: !!this.directory
+    };
+  }
+
+  private remember(key: string, speech: CachedSpeech): void {
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.bytes -= existing.audio.length;
+      this.entries.delete(key);
+    }
+
+    this.entries.set(key, speech);
+    this.bytes += speech.audio.length;
+
+    // Evict least recently used entries until we fit
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldestKey);
+      this.bytes -= oldest.audio.length;
+      this.counters.evictions++;
+    }
+  }
+
+  private async readFromDisk(key: string): Promise<CachedSpeech | null> {
+    if (!this.directory) return null;
+
+    for (const [contentType, extension] of Object.entries(EXTENSIONS)) {
+      const filePath = path.join(this.directory, `${key}.${extension}`);
+      try {
+        const audio = await fs.promises.readFile(filePath);
+        // Touch the file so pruning treats it as recently used
+        const now = new Date();
+        await fs.promises.utimes(filePath, now, now).catch(() => undefined);
+        return { audio, contentType };
+      } catch {
+        // Not cached in this format
+      }
+    }
+    return null;
+  }
+
+  private async writeToDisk(key: string, speech: CachedSpeech): Promise<void> {
+    const extension = EXTENSIONS[speech.contentType];
+    if (!this.directory || !extension) return;
+
+    try {
+      // Write then rename so readers never see a partial file
+      const filePath = path.join(this.directory, `${key}.${extension}`);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, speech.audio);
+      await fs.promises.rename(tempPath, filePath);
+
+      if (this.diskBytes === null) {
+        this.diskBytes = await this.pruneDisk();
+      } else {
+        this.diskBytes += speech.audio.length;
+        if (this.diskBytes > this.maxDiskBytes) {
+          this.diskBytes = await this.pruneDisk();
+        }
+      }
+    } catch (error) {
+      log.warn({ err: error }, 'Failed to write TTS cache file');
+    }
+  }
+
+  // Delete the least recently used files once the directory is over its
+  // limit; returns the bytes left
+  private async pruneDisk(): Promise<number> {
+    if (!this.directory) return 0;
+
+    const files = await Promise.all(
+      (await fs.promises.readdir(this.directory))
+        .filter(file => !file.endsWith('.tmp'))
+        .map(async file => {
+          const stat = await fs.promises.stat(path.join(this.directory!, file));
+          return { file, size: stat.size, mtime: stat.mtimeMs };
+        })
+    );
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    if (total <= this.maxDiskBytes) return total;
+
+    files.sort((a, b) => a.mtime - b.mtime);
+    for (const file of files) {
+      if (total <= this.maxDiskBytes) break;
+      await fs.promises.unlink(path.join(this.directory, file.file)).catch(() => undefined);
+      total -= file.size;
+    }
+    return total;
+  }
+}
+
+// Whether an If-None-Match header names this ETag
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some(candidate => {
+    const value = candidate.trim();
+    return value === '*' || value === etag || value === `W/${etag}`;
+  });
+}
@@ -0,0 +1,341 @@
+import { csrfHeaders } from './sessionCredentials';
+
+// Client-side playback queue for sentence-by-sentence TTS.
+//
+// Each enqueued sentence is synthesized right away (a few requests in
+// parallel), decoded with Web Audio and scheduled back-to-back on the
+// AudioContext clock so segments play in order without gaps. One queue
+// represents one reply: call close() once the last sentence has been
+// enqueued, and await drained() to know when playback has finished.
+
+export type PlaybackQueueEvent =
+  | { type: 'segmentstart'; index: number; text: string }
+  | { type: 'segmentend'; index: number; text: string }
+  | { type: 'progress'; playedSeconds: number; scheduledSeconds: number; completedSegments: number; totalSegments: number }
+  | { type: 'error'; index: number; text: string; error: string }
+  | { type: 'drain' }
+  | { type: 'cancel'; heardText: string };
+
+export type PlaybackQueueListener = (event: PlaybackQueueEvent) => void;
+
+// Fetch encoded audio (mp3, wav, ...) for one sentence
+export type SynthesizeSegment = (text: string, signal: AbortSignal) => Promise<ArrayBuffer>;
+
+export interface TTSPlaybackQueueOptions {
+  synthesize?: SynthesizeSegment; // Overrides the default POST to `endpoint`
+  endpoint?: string; // Authenticated by the session cookie
+  requestBody?: Record<string, unknown>; // Extra fields sent with every TTS request
+  maxConcurrentRequests?: number;
+  audioContext?: AudioContext;
+}
+
+type SegmentStatus = 'pending' | 'fetching' | 'ready' | 'scheduled' | 'playing' | 'done' | 'failed' | 'cancelled';
+
+interface Segment {
+  index: number;
+  text: string;
+  status: SegmentStatus;
+  buffer?: AudioBuffer;
+  source?: AudioBufferSourceNode;
+  startAt?: number; // AudioContext time
+  duration?: number;
+  abort?: AbortController;
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export class TTSPlaybackQueue {
+  private segments: Segment[] = [];
+  private listeners: PlaybackQueueListener[] = [];
+  private audioContext: AudioContext;
+  private ownsAudioContext: boolean;
+  private synthesize: SynthesizeSegment;
+  private maxConcurrentRequests: number;
+  private nextStartTime = 0;
+  private nextToSchedule = 0;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+  private isClosed = false;
+  private isCancelled = false;
+  private isFinished = false;
+  private drainPromise: Promise<void>;
+  private resolveDrain!: () => void;
+
+  constructor(options: TTSPlaybackQueueOptions = {}) {
+    this.synthesize = options.synthesize || createEndpointSynthesizer(
+      options.endpoint || '/api/tts',
+      options.requestBody
+    );
+    this.maxConcurrentRequests = options.maxConcurrentRequests || 3;
+
+    if (options.audioContext) {
+      this.audioContext = options.audioContext;
+      this.ownsAudioContext = false;
+    } else {
+      this.audioContext = createAudioContext();
+      this.ownsAudioContext = true;
+    }
+
+    this.drainPromise = new Promise(resolve => {
+      this.resolveDrain = resolve;
+    });
+  }
+
+  // Subscribe to queue events (returns an unsubscribe function)
+  on(listener: PlaybackQueueListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  // Add a sentence to the end of the reply
+  enqueue(text: string): void {
+    if (this.isClosed || this.isCancelled || !text.trim()) return;
+
+    this.segments.push({ index: this.segments.length, text: text.trim(), status: 'pending' });
+
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(() => {});
+    }
+
+    this.pump();
+  }
+
+  // Mark the reply as complete; the queue drains once everything has played
+  close(): void {
+    if (this.isClosed) return;
+    this.isClosed = true;
+    this.checkFinished();
+  }
+
+  // Resolves after the last segment finished playing, or after cancel()
+  drained(): Promise<void> {
+    return this.drainPromise;
+  }
+
+  // Stop playback immediately and drop everything not yet heard
+  cancel(): string {
+    if (this.isCancelled || this.isFinished) return this.getHeardText();
+
+    const heardText = this.getHeardText();
+    this.isCancelled = true;
+
+    for (const segment of this.segments) {
+      segment.abort?.abort();
+      if (segment.source) {
+        segment.source.onended = null;
+        try {
+          segment.source.stop();
+        } catch {
+          // Source was never started
+        }
+      }
+      if (segment.status !== 'done' && segment.status !== 'failed') {
+        segment.status = 'cancelled';
+      }
+    }
+
+    this.emit({ type: 'cancel', heardText });
+    this.finish();
+    return heardText;
+  }
+
+  get isPlaying(): boolean {
+    return !this.isFinished && this.segments.some(segment => segment.status === 'playing' || segment.status === 'scheduled');
+  }
+
+  // Text the listener has actually heard so far (partial sentences are cut by elapsed time)
+  getHeardText(): string {
+    const now = this.audioContext.currentTime;
+    const heard: string[] = [];
+
+    for (const segment of this.segments) {
+      if (segment.status === 'done') {
+        heard.push(segment.text);
+        continue;
+      }
+
+      if ((segment.status === 'playing' || segment.status === 'scheduled') &&
+          segment.startAt !== undefined && segment.duration && now > segment.startAt) {
+        const fraction = Math.min(1, (now - segment.startAt) / segment.duration);
+        const words = segment.text.split(/\s+/);
+        const heardWords = words.slice(0, Math.floor(words.length * fraction));
+        if (heardWords.length > 0) {
+          heard.push(heardWords.join(' '));
+        }
+      }
+      break;
+    }
+
+    return heard.join(' ');
+  }
+
+  // Start as many requests as the concurrency limit allows
+  private pump(): void {
+    if (this.isCancelled) return;
+
+    const inFlight = this.segments.filter(segment => segment.status === 'fetching').length;
+    let available = this.maxConcurrentRequests - inFlight;
+
+    for (const segment of this.segments) {
+      if (available <= 0) break;
+      if (segment.status === 'pending') {
+        available--;
+        this.fetchSegment(segment);
+      }
+    }
+  }
+
+  private async fetchSegment(segment: Segment): Promise<void> {
+    segment.status = 'fetching';
+    segment.abort = new AbortController();
+
+    try {
+      const audioData = await this.synthesize(segment.text, segment.abort.signal);
+      if (this.isCancelled) return;
+
+      segment.buffer = await this.audioContext.decodeAudioData(audioData);
+      segment.status = 'ready';
+    } catch (error) {
+      if (this.isCancelled) return;
+      segment.status = 'failed';
+      this.emit({
+        type: 'error',
+        index: segment.index,
+        text: segment.text,
+        error: error instanceof Error ? error.message : 'Unknown TTS error'
+      });
+    }
+
+    this.scheduleReady();
+    this.pump();
+  }
+
+  // Schedule decoded segments in order, each starting where the previous ends
+  private scheduleReady(): void {
+    while (!this.isCancelled && this.nextToSchedule < this.segments.length) {
+      const segment = this.segments[this.nextToSchedule];
+
+      if (segment.status === 'failed') {
+        this.nextToSchedule++;
+        continue;
+      }
+      if (segment.status !== 'ready' || !segment.buffer) break;
+
+      const source = this.audioContext.createBufferSource();
+      source.buffer = segment.buffer;
+      source.connect(this.audioContext.destination);
+
+      const startAt = Math.max(this.audioContext.currentTime, this.nextStartTime);
+      segment.source = source;
+      segment.startAt = startAt;
+      segment.duration = segment.buffer.duration;
+      segment.status = 'scheduled';
+      this.nextStartTime = startAt + segment.buffer.duration;
+
+      source.onended = () => {
+        if (segment.status === 'scheduled') {
+          this.emit({ type: 'segmentstart', index: segment.index, text: segment.text });
+        }
+        segment.status = 'done';
+        this.emit({ type: 'segmentend', index: segment.index, text: segment.text });
+        this.checkFinished();
+      };
+
+      source.start(startAt);
+      this.nextToSchedule++;
+      this.startProgressTimer();
+    }
+
+    this.checkFinished();
+  }
+
+  private startProgressTimer(): void {
+    if (this.progressTimer) return;
+    this.progressTimer = setInterval(() => this.tick(), PROGRESS_INTERVAL_MS);
+    this.tick();
+  }
+
+  // Emit segment starts and overall progress
+  private tick(): void {
+    const now = this.audioContext.currentTime;
+    let playedSeconds = 0;
+    let scheduledSeconds = 0;
+
+    for (const segment of this.segments) {
+      if (segment.startAt === undefined || !segment.duration) continue;
+
+      scheduledSeconds += segment.duration;
+      playedSeconds += Math.max(0, Math.min(segment.duration, now - segment.startAt));
+
+      if (segment.status === 'scheduled' && now >= segment.startAt) {
+        segment.status = 'playing';
+        this.emit({ type: 'segmentstart', index: segment.index, text: segment.text });
+      }
+    }
+
+    this.emit({
+      type: 'progress',
+      playedSeconds,
+      scheduledSeconds,
+      completedSegments: this.segments.filter(segment => segment.status === 'done').length,
+      totalSegments: this.segments.length
+    });
+  }
+
+  private checkFinished(): void {
+    if (!this.isClosed || this.isFinished || this.isCancelled) return;
+
+    const settled = this.segments.every(segment => segment.status === 'done' || segment.status === 'failed');
+    if (settled) {
+      this.emit({ type: 'drain' });
+      this.finish();
+    }
+  }
+
+  private finish(): void {
+    this.isFinished = true;
+    if (this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+    if (this.ownsAudioContext) {
+      this.audioContext.close().catch(() => {});
+    }
+    this.resolveDrain();
+  }
+
+  private emit(event: PlaybackQueueEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Playback queue listener error:', error);
+      }
+    });
+  }
+}
+
+// Default synthesizer: POST { text, ...body } to a TTS route that returns audio
+export function createEndpointSynthesizer(endpoint: string, body: Record<string, unknown> = {}): SynthesizeSegment {
+  return async (text, signal) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+      body: JSON.stringify({ ...body, text }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`TTS request failed (${response.status})`);
+    }
+
+    return await response.arrayBuffer();
+  };
+}
+
+// Create an AudioContext (webkit-prefixed on older iOS)
+export function createAudioContext(): AudioContext {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  return new AudioContextClass({ latencyHint: 'interactive' });
+}
@@ -0,0 +1,232 @@
+import { spawn } from 'child_process';
+import OpenAI from 'openai';
+import { createLogger } from './logger';
+
+const log = createLogger('ttsProvider');
+
+// Text-to-speech backends behind TTSService.
+//
+// The provider is selected with TTS_PROVIDER:
+// - openai (default): OpenAI speech with OPENAI_API_KEY (TTS_MODEL, default tts-1)
+// - command: a local synthesizer such as Piper or eSpeak, run as TTS_COMMAND.
+//   The text is written to its stdin and a WAV file is read from its stdout;
+//   "{voice}", "{speed}", "{wpm}" (eSpeak) and "{lengthScale}" (Piper) are
+//   replaced per request, e.g.
+//   TTS_COMMAND="espeak-ng --stdout -s {wpm}" or
+//   TTS_COMMAND="piper --model /models/amy.onnx --length_scale {lengthScale} --output_file -"
+// - silent / beep: generated WAV of the expected length, no network (for tests)
+
+export type SpeechFormat = 'mp3' | 'wav';
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  speed: number; // 1.0 is normal pace
+  format: SpeechFormat; // Preferred format; local providers always return WAV
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer;
+  contentType: string;
+}
+
+export interface TTSProvider {
+  readonly name: string;
+  readonly model: string; // For pricing (see costAccounting.ts)
+  isConfigured(): boolean;
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+export type TTSProviderName = 'openai' | 'command' | 'silent' | 'beep';
+
+const CONTENT_TYPES: Record<SpeechFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav'
+};
+
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+  readonly model: string;
+  private apiKey: string | undefined;
+
+  constructor(options: { apiKey?: string; model: string }) {
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SynthesizedSpeech> {
+    const response = await this.client.audio.speech.create({
+      model: this.model,
+      voice: request.voice,
+      input: request.text,
+      speed: request.speed,
+      response_format: request.format
+    });
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      contentType: CONTENT_TYPES[request.format]
+    };
+  }
+}
+
+// Runs a local synthesizer once per request
+export class CommandTTSProvider implements TTSProvider {
+  readonly name = 'command';
+  readonly model = 'command';
+  private command: string;
+  private timeoutMs: number;
+
+  constructor(command: string, timeoutMs: number = 20000) {
+    this.command = command;
+    this.timeoutMs = timeoutMs;
+  }
+
+  isConfigured(): boolean {
+    return this.command.trim().length > 0;
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SynthesizedSpeech> {
+    const placeholders: Record<string, string> = {
+      voice: request.voice,
+      speed: request.speed.toFixed(2),
+      wpm: Math.round(175 * request.speed).toString(), // eSpeak words per minute
+      lengthScale: (1 / request.speed).toFixed(2) // Piper phoneme length (inverse of speed)
+    };
+
+    // Split on whitespace and run without a shell so the text can never be interpreted
+    const [program, ...args] = this.command.trim().split(/\s+/).map(part =>
+      part.replace(/\{(\w+)\}/g, (match, key: string) => placeholders[key] ?? match)
+    );
+
+    const audio = await new Promise<Buffer>((resolve, reject) => {
+      const child = spawn(program, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`TTS command timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-500);
+      });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(stdout));
+        } else {
+          reject(new Error(`TTS command exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.stdin.end(request.text);
+    });
+
+    return { audio, contentType: CONTENT_TYPES.wav };
+  }
+}
+
+// Generated audio with roughly the length real speech would have: silence,
+// or a short beep followed by silence
+export class TestToneTTSProvider implements TTSProvider {
+  readonly name: 'silent' | 'beep';
+  readonly model = 'test-tone';
+  private readonly SAMPLE_RATE = 16000;
+  private readonly CHARACTERS_PER_SECOND = 14; // Average speaking rate at speed 1.0
+
+  constructor(mode: 'silent' | 'beep') {
+    this.name = mode;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SynthesizedSpeech> {
+    const seconds = Math.min(30, Math.max(0.3, request.text.length / this.CHARACTERS_PER_SECOND / request.speed));
+    const samples = new Int16Array(Math.round(seconds * this.SAMPLE_RATE));
+
+    if (this.name === 'beep') {
+      const beepSamples = Math.min(samples.length, Math.round(0.2 * this.SAMPLE_RATE));
+      for (let i = 0; i < beepSamples; i++) {
+        samples[i] = Math.round(Math.sin(2 * Math.PI * 440 * i / this.SAMPLE_RATE) * 0.2 * 0x7fff);
+      }
+    }
+
+    return { audio: encodePcmWav(samples, this.SAMPLE_RATE), contentType: CONTENT_TYPES.wav };
+  }
+}
+
+// 16-bit mono PCM WAV
+function encodePcmWav(samples: Int16Array, sampleRate: number): Buffer {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8, 'ascii');
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16); // PCM chunk size
+  buffer.writeUInt16LE(1, 20); // PCM format
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  buffer.writeUInt16LE(2, 32); // Block align
+  buffer.writeUInt16LE(16, 34); // Bits per sample
+  buffer.write('data', 36, 'ascii');
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+  return buffer;
+}
+
+declare global {
+  var ttsProvider: TTSProvider | undefined;
+}
+
+export function getTTSProviderName(): TTSProviderName {
+  const value = (process.env.TTS_PROVIDER || 'openai').toLowerCase();
+  if (value === 'command' || value === 'silent' || value === 'beep') {
+    return value;
+  }
+  if (value !== 'openai') {
+    log.warn({ provider: value }, 'Unknown TTS_PROVIDER, falling back to openai');
+  }
+  return 'openai';
+}
+
+// Process-wide provider (created on first use)
+export function getTTSProvider(): TTSProvider {
+  if (!global.ttsProvider) {
+    global.ttsProvider = createTTSProvider(getTTSProviderName());
+    log.info({ provider: global.ttsProvider.name }, 'TTS provider ready');
+  }
+  return global.ttsProvider;
+}
+
+function createTTSProvider(name: TTSProviderName): TTSProvider {
+  switch (name) {
+    case 'command':
+      if (!process.env.TTS_COMMAND) {
+        throw new Error('TTS_COMMAND is required when TTS_PROVIDER=command');
+      }
+      return new CommandTTSProvider(process.env.TTS_COMMAND, parseInt(process.env.TTS_COMMAND_TIMEOUT_MS || '20000', 10));
+    case 'silent':
+    case 'beep':
+      return new TestToneTTSProvider(name);
+    default:
+      return new OpenAITTSProvider({ apiKey: process.env.OPENAI_API_KEY, model: process.env.TTS_MODEL || 'tts-1' });
+  }
+}
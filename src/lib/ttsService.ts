@@ -0,0 +1,153 @@
+import { PersonaRegistry } from './personaRegistry';
+import type { Persona } from './personaRegistry';
+import { getTTSProvider } from './ttsProvider';
+import type { SpeechFormat, TTSProvider } from './ttsProvider';
+import { TTSAudioCache } from './ttsCache';
+import { UsageMeter } from './usageMeter';
+import { getRequestRoute } from './logger';
+import { getMetricsRegistry, startTimer } from './metrics';
+import { CostAccountant } from './costAccounting';
+
+const metrics = getMetricsRegistry();
+const ttsDuration = metrics.histogram('samantha_tts_request_duration_seconds', 'Synthesis time for cache misses, by route and provider');
+const ttsAudioSeconds = metrics.counter('samantha_tts_audio_seconds_total', 'Estimated seconds of audio synthesized (cache misses), by route and provider');
+const ttsErrors = metrics.counter('samantha_tts_errors_total', 'Failed syntheses, by route and provider');
+
+// The one place speech is synthesized.
+//
+// The voice and pace come from the session's persona; the device profile
+// decides the audio format and how much text one request may carry. This
+// replaces the separate /api/tts-fast and /api/tts-mobile variants. Audio is
+// cached by content (see ttsCache.ts), so repeated phrases are synthesized once
+// and cost nothing after that, even when the spending budget is spent.
+
+export type TTSDevice = 'desktop' | 'mobile';
+
+export interface TTSDeviceProfile {
+  format: SpeechFormat;
+  maxCharacters: number; // Longer text is cut at a word boundary
+}
+
+export const TTS_DEVICE_PROFILES: Record<TTSDevice, TTSDeviceProfile> = {
+  desktop: { format: 'mp3', maxCharacters: 500 },
+  // iOS Safari decodes MP3 reliably; shorter clips start sooner on mobile networks
+  mobile: { format: 'mp3', maxCharacters: 300 }
+};
+
+export interface SpeechSynthesisRequest {
+  text: string;
+  sessionId?: string | null;
+  persona?: Persona; // Speak as this persona instead of the session's
+  device?: TTSDevice;
+}
+
+// A request resolved against the persona and device profile
+export interface SpeechJob {
+  text: string; // What will actually be spoken (after truncation)
+  voice: string;
+  speed: number;
+  format: SpeechFormat;
+  device: TTSDevice;
+  cacheKey: string; // Also used as the ETag
+}
+
+export interface SpeechSynthesisResult extends SpeechJob {
+  audio: Buffer;
+  contentType: string;
+  cached: boolean;
+}
+
+// Accept a client-supplied device name, guessing from the user agent otherwise
+export function resolveTTSDevice(value: unknown, userAgent: string = ''): TTSDevice {
+  if (value === 'desktop' || value === 'mobile') {
+    return value;
+  }
+  return /Mobi|Android|iPhone|iPad|iPod/i.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+export class TTSService {
+  private static instance: TTSService;
+  private provider: TTSProvider;
+
+  private constructor() {
+    this.provider = getTTSProvider();
+  }
+
+  public static getInstance(): TTSService {
+    if (!TTSService.instance) {
+      TTSService.instance = new TTSService();
+    }
+    return TTSService.instance;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  async prepare(request: SpeechSynthesisRequest): Promise<SpeechJob> {
+    const device = request.device || 'desktop';
+    const profile = TTS_DEVICE_PROFILES[device];
+    const persona = request.persona || await PersonaRegistry.getInstance().resolveForSession(request.sessionId);
+    const text = truncateAtWord(request.text.trim(), profile.maxCharacters);
+
+    return {
+      text,
+      voice: persona.voice,
+      speed: persona.ttsSpeed,
+      format: profile.format,
+      device,
+      cacheKey: TTSAudioCache.keyFor({
+        provider: this.provider.name,
+        text,
+        voice: persona.voice,
+        speed: persona.ttsSpeed,
+        format: profile.format
+      })
+    };
+  }
+
+  async synthesize(request: SpeechSynthesisRequest | SpeechJob): Promise<SpeechSynthesisResult> {
+    const job = 'cacheKey' in request ? request : await this.prepare(request);
+    const cache = TTSAudioCache.getInstance();
+
+    const cached = await cache.get(job.cacheKey);
+    if (cached) {
+      return { ...job, ...cached, cached: true };
+    }
+
+    const costs = CostAccountant.getInstance();
+    await costs.assertWithinBudget();
+
+    const labels = { route: getRequestRoute(), provider: this.provider.name };
+    const startedAt = startTimer();
+    let speech;
+    try {
+      speech = await this.provider.synthesize({
+        text: job.text,
+        voice: job.voice,
+        speed: job.speed,
+        format: job.format
+      });
+    } catch (error) {
+      ttsErrors.inc(labels);
+      throw error;
+    }
+    ttsDuration.observeSince(labels, startedAt);
+    ttsAudioSeconds.inc(labels, UsageMeter.getInstance().estimateSpeechSeconds(job.text, job.speed));
+    await costs.recordSynthesis({ provider: this.provider.name, model: this.provider.model }, job.text.length);
+    await cache.set(job.cacheKey, speech);
+
+    return { ...job, ...speech, cached: false };
+  }
+}
+
+function truncateAtWord(text: string, maxCharacters: number): string {
+  if (text.length <= maxCharacters) return text;
+  const cut = text.substring(0, maxCharacters);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxCharacters / 2 ? cut.substring(0, lastSpace) : cut).replace(/[,;:]$/, '');
+}
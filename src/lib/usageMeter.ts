@@ -0,0 +1,172 @@
+import { Database } from './database';
+import { SessionManager } from './sessionManager';
+import { ROUTE_POLICIES, type PolicyRoute, type RoutePolicy } from './routePolicies';
+import { createLogger, getRequestRoute } from './logger';
+
+const log = createLogger('usageMeter');
+
+// Server-side metering of conversation time against the daily limit.
+//
+// Every protected request claims a slice of wall-clock time for its session:
+// transcriptions claim the recorded audio that ended now, synthesis claims the
+// audio that will play from now on, and chat requests claim nothing on their
+// own. Short gaps between claims are treated as live conversation and are
+// debited too, while overlapping claims are only debited once. Sentences of
+// one reply are synthesized in parallel but played one after another, so each
+// synthesis claim starts where the session's previous one ends.
+
+export type UsageKind = 'transcription' | 'synthesis' | 'chat';
+
+interface MeterState {
+  meteredUntil: number; // Epoch ms up to which time has already been debited
+  synthesisUntil: number; // Epoch ms when the audio synthesized so far finishes playing
+  lastSeen: number;
+}
+
+export interface UsageRecord {
+  sessionId: string;
+  kind: UsageKind;
+  audioSeconds: number;
+  debitedSeconds: number;
+  remainingSeconds: number;
+}
+
+declare global {
+  var usageMeters: Map<string, MeterState> | undefined;
+}
+
+// Only initialize on server-side
+if (typeof window === 'undefined' && !global.usageMeters) {
+  global.usageMeters = new Map();
+}
+
+export class UsageMeter {
+  private static instance: UsageMeter;
+  private database: Database;
+  private sessionManager: SessionManager;
+  private meters: Map<string, MeterState>;
+  private readonly CONVERSATION_GAP_MS = 30 * 1000; // Gaps up to 30s count as conversation
+  private readonly MAX_CLAIM_MS = 2 * 60 * 1000; // No single request debits more than 2 minutes
+  private readonly METER_TTL_MS = 60 * 60 * 1000; // Forget idle meters after 1 hour
+  private readonly CHARACTERS_PER_SECOND = 14; // Average speaking rate at speed 1.0
+
+  private constructor() {
+    this.database = Database.getInstance();
+    this.sessionManager = SessionManager.getInstance();
+    this.meters = global.usageMeters!;
+
+    // Only start cleanup on server-side
+    if (typeof window === 'undefined') {
+      setInterval(() => this.cleanupIdleMeters(), 5 * 60 * 1000); // Every 5 minutes
+    }
+  }
+
+  public static getInstance(): UsageMeter {
+    if (!UsageMeter.instance) {
+      UsageMeter.instance = new UsageMeter();
+    }
+    return UsageMeter.instance;
+  }
+
+  // Record transcribed user audio that finished recording just now
+  async recordTranscription(sessionId: string, audioSeconds: number): Promise<UsageRecord> {
+    const now = Date.now();
+    const audioMs = this.toMilliseconds(audioSeconds);
+    return this.debit(sessionId, 'transcription', audioSeconds, now - audioMs, now);
+  }
+
+  // Record synthesized audio that plays after what was synthesized before it
+  async recordSynthesis(sessionId: string, audioSeconds: number): Promise<UsageRecord> {
+    const start = Math.max(Date.now(), this.meters.get(sessionId)?.synthesisUntil || 0);
+    const audioMs = this.toMilliseconds(audioSeconds);
+    return this.debit(sessionId, 'synthesis', audioSeconds, start, start + audioMs);
+  }
+
+  // Record a chat turn (only the conversation time since the last request)
+  async recordChat(sessionId: string): Promise<UsageRecord> {
+    const now = Date.now();
+    return this.debit(sessionId, 'chat', 0, now, now);
+  }
+
+  // Estimate how long synthesized speech will play for
+  estimateSpeechSeconds(text: string, speed: number = 1.0): number {
+    const characters = text.trim().length;
+    if (characters === 0) return 0;
+    return characters / (this.CHARACTERS_PER_SECOND * Math.max(0.25, speed));
+  }
+
+  // Get remaining daily seconds for a session
+  async getRemainingSeconds(sessionId: string): Promise<number> {
+    const remainingMinutes = await this.database.getRemainingDailyMinutes(sessionId);
+    return Math.floor(remainingMinutes * 60);
+  }
+
+  private async debit(
+    sessionId: string,
+    kind: UsageKind,
+    audioSeconds: number,
+    claimStart: number,
+    claimEnd: number
+  ): Promise<UsageRecord> {
+    const route = getRequestRoute();
+    const policy: RoutePolicy | undefined = ROUTE_POLICIES[route as PolicyRoute];
+    if (policy && !policy.quota.includes(kind)) {
+      log.warn({ route, kind }, 'Route debits usage its policy does not declare');
+    }
+
+    const now = Date.now();
+    const state = this.meters.get(sessionId) || { meteredUntil: 0, synthesisUntil: 0, lastSeen: now };
+
+    // Treat a short gap since the previous claim as live conversation time
+    let start = claimStart;
+    if (state.meteredUntil > 0 && start > state.meteredUntil && start - state.meteredUntil <= this.CONVERSATION_GAP_MS) {
+      start = state.meteredUntil;
+    }
+
+    // Never debit the same stretch of time twice
+    const effectiveStart = Math.max(start, state.meteredUntil);
+    const debitMs = Math.min(this.MAX_CLAIM_MS, Math.max(0, claimEnd - effectiveStart));
+
+    state.meteredUntil = Math.max(state.meteredUntil, claimEnd);
+    if (kind === 'synthesis') {
+      state.synthesisUntil = Math.max(state.synthesisUntil, claimEnd);
+    }
+    state.lastSeen = now;
+    this.meters.set(sessionId, state);
+
+    if (debitMs > 0) {
+      const usedMinutes = debitMs / 60000;
+      const updated = await this.database.updateDailyUsage(sessionId, usedMinutes);
+      if (updated) {
+        await this.sessionManager.updateSessionUsage(sessionId, usedMinutes);
+      }
+    }
+
+    const record: UsageRecord = {
+      sessionId,
+      kind,
+      audioSeconds,
+      debitedSeconds: debitMs / 1000,
+      remainingSeconds: await this.getRemainingSeconds(sessionId)
+    };
+
+    log.info(record, 'Usage metered');
+
+    return record;
+  }
+
+  private toMilliseconds(seconds: number): number {
+    if (!Number.isFinite(seconds) || seconds <= 0) return 0;
+    return Math.round(seconds * 1000);
+  }
+
+  // Clean up meters for sessions that have gone quiet
+  private cleanupIdleMeters(): void {
+    const now = Date.now();
+    for (const [sessionId, state] of this.meters.entries()) {
+      if (now - state.lastSeen > this.METER_TTL_MS) {
+        this.meters.delete(sessionId);
+      }
+    }
+  }
+}
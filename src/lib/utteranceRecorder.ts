@@ -0,0 +1,258 @@
+import { VoiceActivityDetector, type VadOptions } from './voiceActivityDetector';
+
+// Captures microphone PCM and cuts it into utterances using the VAD.
+//
+// Audio is kept in a short rolling pre-roll buffer while nobody is talking,
+// so the start of a word is not lost when speech is detected. When the VAD
+// reports the end of speech, leading/trailing silence is trimmed (keeping a
+// little padding) and the utterance is handed over as a 16 kHz mono WAV,
+// ready for /api/transcribe.
+
+export interface Utterance {
+  audio: Blob; // audio/wav
+  durationMs: number;
+}
+
+export interface UtteranceRecorderOptions extends VadOptions {
+  paddingMs?: number; // Silence kept before and after the speech
+  maxUtteranceMs?: number; // Utterances are cut off after this long
+  targetSampleRate?: number;
+  onSpeechStart?: () => void;
+  onUtterance: (utterance: Utterance) => void;
+}
+
+const FRAME_SIZE = 2048;
+
+export class UtteranceRecorder {
+  private options: UtteranceRecorderOptions;
+  private vad: VoiceActivityDetector;
+  private audioContext: AudioContext | null = null;
+  private ownsAudioContext = false;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private sink: GainNode | null = null;
+  private frames: Float32Array[] = []; // Pre-roll while silent, the whole utterance while speaking
+  private frameTimes: number[] = [];
+  private capturedMs = 0;
+  private paused = false;
+
+  constructor(options: UtteranceRecorderOptions) {
+    this.options = options;
+    this.vad = new VoiceActivityDetector(options);
+  }
+
+  get isRunning(): boolean {
+    return this.processor !== null;
+  }
+
+  get isSpeechActive(): boolean {
+    return this.vad.isSpeaking;
+  }
+
+  start(stream: MediaStream, audioContext?: AudioContext): void {
+    this.stop();
+
+    if (audioContext) {
+      this.audioContext = audioContext;
+      this.ownsAudioContext = false;
+    } else {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      this.audioContext = new AudioContextClass();
+      this.ownsAudioContext = true;
+    }
+
+    const context = this.audioContext!;
+    this.source = context.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but is the one capture path that also works on older iOS Safari
+    this.processor = context.createScriptProcessor(FRAME_SIZE, 1, 1);
+    this.sink = context.createGain();
+    this.sink.gain.value = 0; // The processor must be connected to run, but the mic must stay silent
+
+    this.processor.onaudioprocess = (event) => {
+      this.handleFrame(new Float32Array(event.inputBuffer.getChannelData(0)), context.sampleRate);
+    };
+
+    this.source.connect(this.processor);
+    this.processor.connect(this.sink);
+    this.sink.connect(context.destination);
+
+    this.vad.reset();
+    this.frames = [];
+    this.frameTimes = [];
+    this.capturedMs = 0;
+    this.paused = false;
+  }
+
+  // Ignore input (e.g. while Samantha is speaking) without releasing the mic
+  pause(): void {
+    this.paused = true;
+    this.vad.reset();
+    this.frames = [];
+    this.frameTimes = [];
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  // Emit the utterance in progress right away (e.g. the user pressed stop mid-sentence)
+  flush(): void {
+    if (!this.audioContext) return;
+    const forced = this.vad.forceEnd();
+    if (forced) {
+      this.emitUtterance(forced.time - forced.duration, this.capturedMs, this.audioContext.sampleRate);
+    }
+  }
+
+  stop(): void {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.sink?.disconnect();
+    this.sink = null;
+
+    if (this.ownsAudioContext) {
+      this.audioContext?.close().catch(() => {});
+    }
+    this.audioContext = null;
+    this.frames = [];
+    this.frameTimes = [];
+  }
+
+  private handleFrame(samples: Float32Array, sampleRate: number): void {
+    if (this.paused) return;
+
+    const time = this.capturedMs;
+    const frameMs = (samples.length / sampleRate) * 1000;
+    this.capturedMs += frameMs;
+
+    this.frames.push(samples);
+    this.frameTimes.push(time);
+
+    const { event } = this.vad.processFrame(samples, sampleRate, time);
+    const paddingMs = this.options.paddingMs ?? 200;
+
+    if (event?.type === 'speechstart') {
+      this.options.onSpeechStart?.();
+    }
+
+    if (event?.type === 'speechend') {
+      this.emitUtterance(event.time - event.duration, event.time, sampleRate);
+      return;
+    }
+
+    if (this.vad.isSpeaking) {
+      const startTime = this.frameTimes[0];
+      if (time + frameMs - startTime >= (this.options.maxUtteranceMs ?? 15000)) {
+        const forced = this.vad.forceEnd();
+        if (forced) {
+          this.emitUtterance(forced.time - forced.duration, time + frameMs, sampleRate);
+        }
+      }
+      return;
+    }
+
+    // Not speaking: keep only enough audio to cover the VAD's start delay plus padding
+    const preRollMs = paddingMs + 500;
+    while (this.frameTimes.length > 1 && time - this.frameTimes[1] > preRollMs) {
+      this.frames.shift();
+      this.frameTimes.shift();
+    }
+  }
+
+  private emitUtterance(speechStart: number, speechEnd: number, sampleRate: number): void {
+    const paddingMs = this.options.paddingMs ?? 200;
+    const from = speechStart - paddingMs;
+    const to = speechEnd + paddingMs;
+
+    // Trim leading/trailing silence to the padded speech window
+    const kept: Float32Array[] = [];
+    this.frames.forEach((frame, index) => {
+      const frameStart = this.frameTimes[index];
+      const frameEnd = frameStart + (frame.length / sampleRate) * 1000;
+      if (frameEnd > from && frameStart < to) {
+        kept.push(frame);
+      }
+    });
+
+    this.frames = [];
+    this.frameTimes = [];
+
+    const samples = concatFrames(kept);
+    if (samples.length === 0) return;
+
+    const targetRate = this.options.targetSampleRate ?? 16000;
+    const resampled = downsample(samples, sampleRate, targetRate);
+
+    this.options.onUtterance({
+      audio: encodeWav(resampled, targetRate),
+      durationMs: (resampled.length / targetRate) * 1000
+    });
+  }
+}
+
+function concatFrames(frames: Float32Array[]): Float32Array {
+  const length = frames.reduce((total, frame) => total + frame.length, 0);
+  const result = new Float32Array(length);
+  let offset = 0;
+  for (const frame of frames) {
+    result.set(frame, offset);
+    offset += frame.length;
+  }
+  return result;
+}
+
+// Average-based downsampling (Whisper works at 16 kHz, so there is no point uploading 48 kHz)
+export function downsample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (toRate >= fromRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const result = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < result.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[j];
+    }
+    result[i] = sum / Math.max(1, end - start);
+  }
+  return result;
+}
+
+// 16-bit PCM mono WAV
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
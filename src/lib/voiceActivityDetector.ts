@@ -0,0 +1,145 @@
+// Frame-based voice activity detection (energy + zero-crossing rate + hangover).
+//
+// Feed it consecutive PCM frames; it reports when an utterance starts and
+// ends. A frame counts as voiced when its energy is well above the adaptive
+// noise floor and its zero-crossing rate looks like speech rather than hiss.
+// Speech must last `minSpeechMs` before it starts an utterance, and the
+// utterance only ends after `hangoverMs` of continuous silence, so short
+// pauses between words do not split it. Pure logic, no browser APIs.
+
+export type VadSensitivity = 'low' | 'medium' | 'high';
+
+export interface VadOptions {
+  sensitivity?: VadSensitivity;
+  energyRatio?: number; // Voiced frames must exceed noiseFloor * energyRatio
+  minEnergy?: number; // Absolute RMS floor (0-1)
+  maxZeroCrossingRate?: number; // Above this a frame is treated as noise/fricative hiss
+  minSpeechMs?: number; // Voiced time needed to start an utterance
+  hangoverMs?: number; // Silence needed to end an utterance
+}
+
+export type VadEvent =
+  | { type: 'speechstart'; time: number } // Time (ms) of the first voiced frame
+  | { type: 'speechend'; time: number; duration: number }; // Time (ms) of the last voiced frame
+
+export interface VadFrameResult {
+  isVoiced: boolean;
+  energy: number;
+  zeroCrossingRate: number;
+  event?: VadEvent;
+}
+
+export const VAD_PRESETS: Record<VadSensitivity, Required<Omit<VadOptions, 'sensitivity'>>> = {
+  low: { energyRatio: 4, minEnergy: 0.02, maxZeroCrossingRate: 0.3, minSpeechMs: 200, hangoverMs: 900 },
+  medium: { energyRatio: 3, minEnergy: 0.01, maxZeroCrossingRate: 0.35, minSpeechMs: 150, hangoverMs: 700 },
+  high: { energyRatio: 2, minEnergy: 0.005, maxZeroCrossingRate: 0.45, minSpeechMs: 100, hangoverMs: 500 }
+};
+
+const NOISE_ADAPT_RATE = 0.05; // Weight of each unvoiced frame in the noise floor
+
+export class VoiceActivityDetector {
+  private options: Required<Omit<VadOptions, 'sensitivity'>>;
+  private noiseFloor = 0;
+  private inSpeech = false;
+  private voicedMs = 0;
+  private silenceMs = 0;
+  private speechStartTime = 0;
+  private lastVoicedTime = 0;
+  private firstVoicedTime = 0;
+
+  constructor(options: VadOptions = {}) {
+    const { sensitivity = 'medium', ...overrides } = options;
+    this.options = { ...VAD_PRESETS[sensitivity], ...overrides };
+  }
+
+  get isSpeaking(): boolean {
+    return this.inSpeech;
+  }
+
+  // Process one frame starting at `time` (ms since capture started)
+  processFrame(samples: Float32Array, sampleRate: number, time: number): VadFrameResult {
+    const frameMs = (samples.length / sampleRate) * 1000;
+    const energy = rms(samples);
+    const zeroCrossingRate = zeroCrossings(samples) / samples.length;
+
+    const threshold = Math.max(this.options.minEnergy, this.noiseFloor * this.options.energyRatio);
+    const isVoiced = energy > threshold && zeroCrossingRate < this.options.maxZeroCrossingRate;
+
+    let event: VadEvent | undefined;
+
+    if (isVoiced) {
+      if (this.voicedMs === 0) {
+        this.firstVoicedTime = time;
+      }
+      this.voicedMs += frameMs;
+      this.silenceMs = 0;
+      this.lastVoicedTime = time + frameMs;
+
+      if (!this.inSpeech && this.voicedMs >= this.options.minSpeechMs) {
+        this.inSpeech = true;
+        this.speechStartTime = this.firstVoicedTime;
+        event = { type: 'speechstart', time: this.speechStartTime };
+      }
+    } else {
+      this.silenceMs += frameMs;
+      this.noiseFloor = this.noiseFloor === 0
+        ? energy
+        : this.noiseFloor * (1 - NOISE_ADAPT_RATE) + energy * NOISE_ADAPT_RATE;
+
+      if (this.inSpeech) {
+        if (this.silenceMs >= this.options.hangoverMs) {
+          this.inSpeech = false;
+          this.voicedMs = 0;
+          event = {
+            type: 'speechend',
+            time: this.lastVoicedTime,
+            duration: this.lastVoicedTime - this.speechStartTime
+          };
+        }
+      } else {
+        // A blip too short to count as speech
+        this.voicedMs = 0;
+      }
+    }
+
+    return { isVoiced, energy, zeroCrossingRate, event };
+  }
+
+  // End the current utterance now (e.g. when a maximum length is reached)
+  forceEnd(): Extract<VadEvent, { type: 'speechend' }> | null {
+    if (!this.inSpeech) return null;
+    this.inSpeech = false;
+    this.voicedMs = 0;
+    this.silenceMs = 0;
+    return {
+      type: 'speechend',
+      time: this.lastVoicedTime,
+      duration: this.lastVoicedTime - this.speechStartTime
+    };
+  }
+
+  reset(): void {
+    this.noiseFloor = 0;
+    this.inSpeech = false;
+    this.voicedMs = 0;
+    this.silenceMs = 0;
+  }
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+function zeroCrossings(samples: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) {
+      crossings++;
+    }
+  }
+  return crossings;
+}
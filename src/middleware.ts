@@ -1,8 +1,19 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getClientIp } from '@/lib/clientIdentity';
+import { EDGE_METRICS_HEADER, getMetricsRegistry } from '@/lib/metrics';
+import { checkRateLimit, isRateLimitEnabled, rateLimitHeaders } from '@/lib/rateLimiter';
+import { findRoutePolicy } from '@/lib/routePolicies';
+import { SESSION_COOKIE_NAME, unverifiedSessionId } from '@/lib/sessionCredentials';
+
+const rateLimitRejections = getMetricsRegistry().counter('samantha_rate_limit_rejections_total', 'API requests refused with 429, by route and bucket');
 
 // SECURITY FIX: Security headers middleware
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return await limitApiRequest(request);
+  }
+
   const response = NextResponse.next();
 
   // SECURITY FIX: Add security headers
@@ -21,7 +32,7 @@ export function middleware(request: NextRequest) {
     "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
     "font-src 'self' https://fonts.gstatic.com",
     "img-src 'self' data: https:",
-    "connect-src 'self' https://api.openai.com https://api.mainnet-beta.solana.com https://rpc.helius.xyz",
+    "connect-src 'self' https://api.mainnet-beta.solana.com https://rpc.helius.xyz",
     "media-src 'self' blob: data:",
     "object-src 'none'",
     "base-uri 'self'",
@@ -37,25 +48,57 @@ export function middleware(request: NextRequest) {
     response.headers.set('Strict-Transport-Security', 'max-age=31536000; includeSubDomains; preload');
   }
 
-  // SECURITY FIX: Rate limiting by IP
-  const path = request.nextUrl.pathname;
-  const ip = request.headers.get('x-forwarded-for') || 
-             request.headers.get('x-real-ip') || 
-             'unknown';
-  
-  // Check rate limit
-  const rateLimitKey = `rate_limit:${ip}`;
-
   // Block suspicious requests
   if (isSuspiciousRequest(request)) {
     return new NextResponse('Forbidden', { status: 403 });
   }
 
+  return response;
+}
+
+// Token-bucket rate limit for API routes. The bucket comes from the route's
+// policy (routePolicies.ts); requests are counted per IP and, when they carry
+// a session cookie, per session as well.
+async function limitApiRequest(request: NextRequest): Promise<NextResponse> {
+  if (!isRateLimitEnabled()) {
+    return nextApiResponse(request);
+  }
+
+  const match = findRoutePolicy(request.nextUrl.pathname);
+  const bucket = match ? match.policy.rateLimit : 'read';
+
+  const ip = getClientIp(request);
+  // Not verified here (no Node crypto); a forged cookie only gets its own bucket
+  const sessionId = unverifiedSessionId(request.cookies.get(SESSION_COOKIE_NAME)?.value);
 
+  const decision = await checkRateLimit(bucket, { ip, sessionId });
+  const headers = rateLimitHeaders(decision);
 
+  if (!decision.allowed) {
+    rateLimitRejections.inc({ route: match ? match.route : 'unknown', bucket });
+    return NextResponse.json({
+      success: false,
+      error: 'Too many requests. Please slow down.'
+    }, { status: 429, headers });
+  }
+
+  const response = nextApiResponse(request);
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
   return response;
 }
 
+// Middleware runs in its own runtime with its own metrics registry, so its
+// metrics travel to /api/metrics on the request (replacing any client copy)
+function nextApiResponse(request: NextRequest): NextResponse {
+  if (request.nextUrl.pathname !== '/api/metrics') {
+    return NextResponse.next();
+  }
+
+  const headers = new Headers(request.headers);
+  headers.set(EDGE_METRICS_HEADER, encodeURIComponent(getMetricsRegistry().render()));
+  return NextResponse.next({ request: { headers } });
+}
+
 // SECURITY FIX: Detect suspicious requests
 function isSuspiciousRequest(request: NextRequest): boolean {
   const userAgent = request.headers.get('user-agent') || '';
@@ -91,28 +134,17 @@ function isSuspiciousRequest(request: NextRequest): boolean {
   return false;
 }
 
-// SECURITY FIX: Detect bot user agents
-function isBotUserAgent(userAgent: string): boolean {
-  const botPatterns = [
-    /bot/i, /crawler/i, /spider/i, /scraper/i, /curl/i, /wget/i,
-    /python/i, /java/i, /perl/i, /ruby/i, /php/i, /go-http-client/i,
-    /semrush/i, /ahrefs/i, /mj12bot/i, /dotbot/i, /rogerbot/i
-  ];
-
-  return botPatterns.some(pattern => pattern.test(userAgent));
-}
-
 // SECURITY FIX: Configure middleware to run on specific paths
 export const config = {
   matcher: [
     /*
-     * Match all request paths except for the ones starting with:
-     * - api (API routes)
+     * Match all request paths (API routes are rate limited) except for
+     * the ones starting with:
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - public files (public folder)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico|public).*)',
+    '/((?!_next/static|_next/image|favicon.ico|public).*)',
   ],
 }; 
\ No newline at end of file
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+/**
+ * Barge-in Test
+ *
+ * Talks to a running server the way ConversationEngine does when the user
+ * interrupts a reply: stream a chat reply, abort the request after the first
+ * sentence, then send the next message with the interruption report. Fails
+ * (exit code 1) unless the stored history holds the cut-off reply, trimmed to
+ * what was heard and marked interrupted, right before the new exchange.
+ *
+ * Start the server with a slow mock model first, e.g.
+ *   LLM_PROVIDER=mock MOCK_LLM_TOKEN_DELAY_MS=100 npm run dev
+ * and point BASE_URL at it if it is not on http://localhost:3000.
+ */
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+
+console.log('🎙️  Barge-in Test');
+console.log('=================\n');
+
+const failures = [];
+let cookies = '';
+let csrfToken = '';
+
+function check(condition, description) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures.push(description);
+}
+
+async function request(path, options = {}) {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cookie': cookies,
+      'X-CSRF-Token': csrfToken,
+      ...options.headers
+    }
+  });
+
+  const setCookies = response.headers.getSetCookie();
+  if (setCookies.length > 0) {
+    cookies = setCookies.map(cookie => cookie.split(';')[0]).join('; ');
+  }
+  return response;
+}
+
+// Stream a reply and abort once its first sentence has arrived, like a barge-in
+async function streamAndInterrupt(message) {
+  const abort = new AbortController();
+  const response = await request('/api/chat', {
+    method: 'POST',
+    body: JSON.stringify({ message, stream: true }),
+    signal: abort.signal
+  });
+  if (!response.ok) {
+    throw new Error(`Streaming chat failed with ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return null;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+
+    for (const line of lines.filter(Boolean)) {
+      const event = JSON.parse(line);
+      if (event.type === 'sentence') {
+        abort.abort();
+        await reader.cancel().catch(() => {});
+        return event.text;
+      }
+      if (event.type === 'done') return null;
+    }
+  }
+}
+
+async function main() {
+  const sessionResponse = await request('/api/session', { method: 'POST', body: '{}' });
+  const session = await sessionResponse.json();
+  if (!session.success) {
+    throw new Error(`Could not create a session: ${session.error}`);
+  }
+  csrfToken = session.csrfToken;
+
+  const heardText = await streamAndInterrupt('Hello there');
+  check(!!heardText, 'Reply was interrupted after its first sentence');
+  if (!heardText) return;
+
+  const nextResponse = await request('/api/chat', {
+    method: 'POST',
+    body: JSON.stringify({ message: 'Sorry, go on', interruption: { heardText } })
+  });
+  check(nextResponse.ok, 'Message after the barge-in was answered');
+
+  const historyResponse = await request(`/api/session/${session.sessionId}/history`);
+  const { history = [] } = await historyResponse.json();
+  const [firstUser, interruptedReply, nextUser, nextReply] = history;
+
+  check(history.length === 4, `History holds both exchanges (got ${history.length} turns)`);
+  check(firstUser?.role === 'user' && firstUser.content === 'Hello there', 'First user turn is stored');
+  check(interruptedReply?.role === 'assistant' && interruptedReply.interrupted === true,
+    'Cut-off reply is stored and marked interrupted');
+  check(interruptedReply?.content === heardText, 'Cut-off reply is trimmed to what was heard');
+  check(nextUser?.role === 'user' && nextUser.content === 'Sorry, go on', 'Next user turn follows it');
+  check(nextReply?.role === 'assistant' && nextReply.interrupted === false, 'Next reply is not marked interrupted');
+}
+
+main()
+  .catch(error => {
+    failures.push(error.message);
+    console.log(`❌ ${error.message}`);
+  })
+  .finally(() => {
+    if (failures.length > 0) {
+      console.log(`\n❌ ${failures.length} problem(s)\n`);
+      process.exit(1);
+    }
+    console.log('\n✨ Interrupted replies are stored as heard\n');
+  });
@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+
+/**
+ * Route Protection Test
+ *
+ * Fails (exit code 1) if any route under src/app/api is not covered by the
+ * route-policy layer:
+ * - every route.ts must have an entry in src/lib/routePolicies.ts
+ * - every exported handler must be wrapped with withRoutePolicy('<its route>', ...)
+ * - routes that call a model provider must not be public
+ * - /api/admin routes (other than the sign-in route) need admin access
+ * - a route's quota lists exactly the kinds of usage its handlers debit
+ *   (UsageMeter.recordChat/recordTranscription/recordSynthesis), and only
+ *   session and relay-token routes have a quota
+ * - every policy entry must belong to an existing route
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const API_DIR = path.join(__dirname, 'src', 'app', 'api');
+const POLICIES_FILE = path.join(__dirname, 'src', 'lib', 'routePolicies.ts');
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+const ACCESS_LEVELS = ['public', 'session', 'owner', 'relay-token', 'admin', 'development'];
+const ADMIN_SIGN_IN_ROUTE = '/api/admin/auth';
+
+// Modules that spend money on every call; routes importing them need a session
+const MODEL_MODULES = ['@/lib/llmProvider', '@/lib/sttProvider', '@/lib/ttsService', '@/lib/ttsProvider'];
+
+// UsageMeter method that debits each quota kind
+const QUOTA_DEBITS = { chat: 'recordChat', transcription: 'recordTranscription', synthesis: 'recordSynthesis' };
+const METERED_ACCESS_LEVELS = ['session', 'relay-token'];
+
+console.log('🔐 Route Protection Test');
+console.log('========================\n');
+
+function findRouteFiles(directory) {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(fullPath);
+    return entry.name === 'route.ts' || entry.name === 'route.js' ? [fullPath] : [];
+  });
+}
+
+function routePathFor(file) {
+  const relative = path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/');
+  return relative ? `/api/${relative}` : '/api';
+}
+
+function readPolicies() {
+  const source = fs.readFileSync(POLICIES_FILE, 'utf8');
+  const policies = new Map();
+  const entryPattern = /'(\/api[^']*)':\s*\{\s*access:\s*'([^']+)',\s*quota:\s*\[([^\]]*)\]/g;
+  let match;
+  while ((match = entryPattern.exec(source)) !== null) {
+    const quota = [...match[3].matchAll(/'([^']+)'/g)].map(kind => kind[1]);
+    policies.set(match[1], { access: match[2], quota });
+  }
+  return policies;
+}
+
+const policies = readPolicies();
+const failures = [];
+const seenRoutes = new Set();
+
+for (const file of findRouteFiles(API_DIR).sort()) {
+  const route = routePathFor(file);
+  const relativeFile = path.relative(__dirname, file);
+  const source = fs.readFileSync(file, 'utf8');
+  const policy = policies.get(route);
+  seenRoutes.add(route);
+
+  if (!policy) {
+    failures.push(`${route}: no entry in src/lib/routePolicies.ts`);
+  } else if (!ACCESS_LEVELS.includes(policy.access)) {
+    failures.push(`${route}: unknown access level "${policy.access}"`);
+  }
+
+  // Handlers declared as functions bypass the policy layer entirely
+  const functionExports = [...source.matchAll(/export\s+(?:async\s+)?function\s+(\w+)/g)].map(m => m[1]);
+  for (const name of functionExports.filter(name => HTTP_METHODS.includes(name))) {
+    failures.push(`${route}: ${name} is exported as a plain function (wrap it with withRoutePolicy)`);
+  }
+
+  if (/export\s*\{[^}]*\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\b/.test(source) || /export\s+default/.test(source)) {
+    failures.push(`${route}: handlers must be exported as "export const METHOD = withRoutePolicy(...)"`);
+  }
+
+  const constExports = [...source.matchAll(/export\s+const\s+(\w+)\s*=\s*([^\n]*)/g)]
+    .filter(m => HTTP_METHODS.includes(m[1]));
+  for (const [, name, initializer] of constExports) {
+    const wrapped = initializer.match(/^withRoutePolicy(?:<[^>]*>)?\(\s*'([^']+)'/);
+    if (!wrapped) {
+      failures.push(`${route}: ${name} is not wrapped with withRoutePolicy`);
+    } else if (wrapped[1] !== route) {
+      failures.push(`${route}: ${name} uses the policy of ${wrapped[1]}`);
+    }
+  }
+
+  if (functionExports.length === 0 && constExports.length === 0) {
+    failures.push(`${route}: no route handlers found in ${relativeFile}`);
+  }
+
+  const usesModels = MODEL_MODULES.some(module => source.includes(`'${module}'`));
+  if (usesModels && policy && policy.access === 'public') {
+    failures.push(`${route}: calls a model provider but is public`);
+  }
+
+  if (route.startsWith('/api/admin/') && route !== ADMIN_SIGN_IN_ROUTE && policy && policy.access !== 'admin') {
+    failures.push(`${route}: admin routes must use admin access`);
+  }
+
+  if (policy) {
+    for (const kind of policy.quota.filter(kind => !QUOTA_DEBITS[kind])) {
+      failures.push(`${route}: unknown quota kind "${kind}"`);
+    }
+    for (const [kind, method] of Object.entries(QUOTA_DEBITS)) {
+      const debits = new RegExp(`\\.${method}\\(`).test(source);
+      if (debits && !policy.quota.includes(kind)) {
+        failures.push(`${route}: debits ${kind} usage but its quota does not declare it`);
+      } else if (!debits && policy.quota.includes(kind)) {
+        failures.push(`${route}: declares a ${kind} quota but never calls UsageMeter.${method}`);
+      }
+    }
+    if (policy.quota.length > 0 && !METERED_ACCESS_LEVELS.includes(policy.access)) {
+      failures.push(`${route}: has a quota but ${policy.access} access has no session to debit`);
+    }
+  }
+
+  const status = failures.some(failure => failure.startsWith(`${route}:`)) ? '❌' : '✅';
+  console.log(`${status} ${route} (${policy ? policy.access : 'no policy'})`);
+}
+
+for (const route of policies.keys()) {
+  if (!seenRoutes.has(route)) {
+    failures.push(`${route}: policy entry without a route file`);
+  }
+}
+
+if (failures.length > 0) {
+  console.log(`\n❌ ${failures.length} problem(s):\n`);
+  failures.forEach(failure => console.log(`   ${failure}`));
+  console.log('');
+  process.exit(1);
+}
+
+console.log(`\n✨ All ${seenRoutes.size} API routes are covered by a route policy\n`);